@@ -0,0 +1,94 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { existsSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { assembleStandalone } from "./adapter.js";
+
+const tmpBase = join(import.meta.dir, "..", ".test-fixtures", "adapter");
+
+function cleanup() {
+  if (existsSync(tmpBase)) {
+    rmSync(tmpBase, { recursive: true, force: true });
+  }
+}
+
+beforeEach(cleanup);
+afterEach(cleanup);
+
+function scaffold(dir: string, files: Record<string, string>) {
+  for (const [path, content] of Object.entries(files)) {
+    const full = join(dir, path);
+    mkdirSync(join(full, ".."), { recursive: true });
+    writeFileSync(full, content);
+  }
+}
+
+describe("assembleStandalone", () => {
+  test("applies embed rules while copying traced files and walks include rules", async () => {
+    const root = tmpBase;
+    const distDir = join(root, ".next");
+    scaffold(root, {
+      ".next/BUILD_ID": "test-build-id",
+      ".next/required-server-files.json": "{}",
+      ".next/server/app/page.js": "// page",
+      "node_modules/geo/package.json": '{"name":"geo"}',
+      "node_modules/geo/index.js": "// traced",
+      "node_modules/geo/index.js.map": "{}",
+      "node_modules/geo/data/cities.json": "[]",
+      "node_modules/heavy/package.json": '{"name":"heavy"}',
+      "node_modules/heavy/index.js": "// traced",
+      "node_modules/heavy/engine.bin": "engine",
+      "node_modules/heavy/keep.bin": "kept",
+    });
+    const traced = [
+      "node_modules/geo/index.js",
+      "node_modules/heavy/index.js",
+      "node_modules/heavy/engine.bin",
+      "node_modules/heavy/keep.bin",
+    ];
+
+    const { standaloneDir, serverDir, ruleHits } = await assembleStandalone(
+      {
+        repoRoot: root,
+        projectDir: root,
+        distDir,
+        outputs: {
+          appPages: [
+            {
+              filePath: join(distDir, "server/app/page.js"),
+              assets: Object.fromEntries(traced.map((p) => [p, join(root, p)])),
+            },
+          ],
+        },
+      },
+      {
+        exclude: ["heavy/*.bin"],
+        // geo/data/cities.json matches two of these; geo/index.js.map is
+        // prunable as well as untraced
+        include: ["heavy/keep.bin", "geo/data/**", "geo/**/*.map", "geo/**/*.json"],
+      }
+    );
+
+    const staged = (p: string) => existsSync(join(standaloneDir, p));
+    expect(serverDir).toBe(standaloneDir);
+    expect(staged(".next/server/app/page.js")).toBe(true);
+    expect(staged(".next/BUILD_ID")).toBe(true);
+    expect(staged("node_modules/geo/index.js")).toBe(true);
+    // excluded while copying, unless an include rule keeps it
+    expect(staged("node_modules/heavy/engine.bin")).toBe(false);
+    expect(staged("node_modules/heavy/keep.bin")).toBe(true);
+    // untraced files an include rule names are pulled in
+    expect(staged("node_modules/geo/data/cities.json")).toBe(true);
+    expect(staged("node_modules/geo/index.js.map")).toBe(true);
+    expect(staged("node_modules/geo/package.json")).toBe(true);
+
+    expect(ruleHits.removed).toEqual([
+      { path: "heavy/engine.bin", reason: 'embed.exclude "heavy/*.bin"' },
+    ]);
+    // one entry per file, from the first rule that pulled it in
+    expect([...ruleHits.added].sort((a, b) => a.path.localeCompare(b.path))).toEqual([
+      { path: "geo/data/cities.json", reason: 'embed.include "geo/data/**"' },
+      { path: "geo/index.js.map", reason: 'embed.include "geo/**/*.map"' },
+      { path: "geo/package.json", reason: 'embed.include "geo/**/*.json"' },
+    ]);
+  });
+});
@@ -2,13 +2,22 @@ import {
   copyFileSync,
   existsSync,
   mkdirSync,
+  readdirSync,
   readFileSync,
   rmSync,
   statSync,
   writeFileSync,
 } from "node:fs";
 import { dirname, join, relative, resolve } from "node:path";
-import { runBuild } from "./build.js";
+import { runBuild, type BuildOptions } from "./build.js";
+import {
+  embedRuleMatcher,
+  findInstalledPackage,
+  includeRulePackage,
+  nodeModulesPath,
+  type EmbedRuleHits,
+  type EmbedRules,
+} from "./generate.js";
 
 /**
  * Next.js Build Adapter entry point (`adapterPath` in next.config, or the
@@ -23,7 +32,8 @@ import { runBuild } from "./build.js";
  *     this over parsing manifests;
  *  2. assembles a standalone-equivalent tree from the traced outputs —
  *     `output: "standalone"` is NOT used and not required;
- *  3. runs the full compile. NBC_TARGET=bun-linux-x64 cross-compiles.
+ *  3. runs the full compile with the createAdapter() options, if any.
+ *     NBC_TARGET=bun-linux-x64 cross-compiles.
  *
  * Shapes are structural-typed locally rather than imported from
  * next/dist/build/adapter so a rename there surfaces as a soft-degrade
@@ -116,34 +126,57 @@ type TracedOutput = {
  *   2. the server runtime's own NFT trace (.next/next-server.js.nft.json —
  *      the same source `output: "standalone"` copies node_modules from)
  *   3. prerender seed files (html/rsc/meta) — cache seeds, not traced deps
+ *   4. untraced node_modules files forced in by `embed.include` rules
+ *
+ * `embed.exclude` rules apply while copying, so excluded files never
+ * reach the tree.
  */
-async function assembleStandalone(ctx: {
-  repoRoot: string;
-  projectDir: string;
-  distDir: string;
-  outputs?: Record<string, unknown>;
-}): Promise<{ standaloneDir: string; serverDir: string }> {
+export async function assembleStandalone(
+  ctx: {
+    repoRoot: string;
+    projectDir: string;
+    distDir: string;
+    outputs?: Record<string, unknown>;
+  },
+  embed: EmbedRules = {}
+): Promise<{
+  standaloneDir: string;
+  serverDir: string;
+  ruleHits: EmbedRuleHits;
+}> {
   const staging = join(ctx.distDir, "nbc-standalone");
   rmSync(staging, { recursive: true, force: true });
   const copied = new Set<string>();
   let escaped = 0;
-  const copyTo = (destRel: string, src: string) => {
+  const ruleHits: EmbedRuleHits = { added: [], removed: [] };
+  const includeRule = embedRuleMatcher("include", embed.include);
+  const excludeRule = embedRuleMatcher("exclude", embed.exclude);
+  const left = new Set<string>();
+  const copyTo = (destRel: string, src: string): boolean => {
     if (destRel.startsWith("..")) {
       escaped++;
-      return;
+      return false;
+    }
+    if (copied.has(destRel) || left.has(destRel)) return false;
+    const mod = nodeModulesPath(destRel);
+    const excluded = mod && excludeRule(mod);
+    if (mod && excluded && !includeRule(mod)) {
+      left.add(destRel);
+      ruleHits.removed.push({ path: mod, reason: excluded });
+      return false;
     }
-    if (copied.has(destRel)) return;
     // Traced maps can contain directory symlinks (hoisted-store links) —
     // only real files are copied; store contents are traced individually.
     try {
-      if (!statSync(src).isFile()) return;
+      if (!statSync(src).isFile()) return false;
     } catch {
-      return;
+      return false;
     }
     copied.add(destRel);
     const dest = join(staging, destRel);
     mkdirSync(dirname(dest), { recursive: true });
     copyFileSync(src, dest);
+    return true;
   };
 
   const outputs = (ctx.outputs ?? {}) as {
@@ -239,9 +272,48 @@ async function assembleStandalone(ctx: {
     copyTo(relative(ctx.repoRoot, src), src);
   }
 
+  // Files read through `fs` at runtime are invisible to tracing; an
+  // include rule naming their package pulls them from the project's
+  // node_modules into the tree's root node_modules.
+  const tracedMods = new Set(
+    [...copied].map(nodeModulesPath).filter((m): m is string => !!m)
+  );
+  for (const glob of embed.include ?? []) {
+    const pkg = includeRulePackage(glob);
+    if (!pkg) continue;
+    const pkgDir = findInstalledPackage(ctx.projectDir, pkg);
+    if (!pkgDir) {
+      console.warn(
+        `next-bun-compile: embed.include ${JSON.stringify(glob)} names ${pkg}, which isn't installed`
+      );
+      continue;
+    }
+    const rule = embedRuleMatcher("include", [glob]);
+    const walk = (dir: string, rel: string) => {
+      for (const entry of readdirSync(dir, { withFileTypes: true })) {
+        const mod = `${rel}/${entry.name}`;
+        const src = join(dir, entry.name);
+        if (entry.isDirectory()) walk(src, mod);
+        else if (!tracedMods.has(mod)) {
+          const reason = rule(mod);
+          if (reason && copyTo(join("node_modules", mod), src)) {
+            tracedMods.add(mod);
+            ruleHits.added.push({ path: mod, reason });
+          }
+        }
+      }
+    };
+    walk(pkgDir, pkg);
+  }
+
   const appStaging = join(staging, relative(ctx.repoRoot, ctx.projectDir));
   mkdirSync(appStaging, { recursive: true });
 
+  if (ruleHits.added.length > 0 || ruleHits.removed.length > 0) {
+    console.log(
+      `next-bun-compile: embed rules added ${ruleHits.added.length} untraced files and left out ${ruleHits.removed.length} traced ones`
+    );
+  }
   if (escaped > 0) {
     console.warn(
       `next-bun-compile: ${escaped} traced file(s) outside the repo root were skipped`
@@ -250,114 +322,140 @@ async function assembleStandalone(ctx: {
   console.log(
     `next-bun-compile: assembled ${copied.size} traced files (no standalone output needed)`
   );
-  return { standaloneDir: staging, serverDir: appStaging };
+  return { standaloneDir: staging, serverDir: appStaging, ruleHits };
 }
 
-const adapter = {
-  name: "next-bun-compile",
+/** Typed build options for `createAdapter()`; see BuildOptions. */
+export type AdapterOptions = BuildOptions;
 
-  async onBuildComplete(ctx: {
-    projectDir: string;
-    repoRoot: string;
-    distDir: string;
-    buildId: string;
-    nextVersion: string;
-    config: { cacheHandler?: string; basePath?: string; i18n?: unknown };
-    routing?: Record<string, unknown>;
-    outputs?: {
-      middleware?: {
-        config?: { matchers?: Array<{ sourceRegex?: string }> };
+/**
+ * Builds an adapter with options baked in, for a local adapter module that
+ * next.config points `adapterPath` at:
+ *
+ *   // nbc-adapter.mjs
+ *   import { createAdapter } from "next-bun-compile";
+ *   export default createAdapter({ out: "dist", target: "bun-linux-x64" });
+ *
+ * NBC_OUT / NBC_BINARY / NBC_TARGET still override per build.
+ */
+export function createAdapter(options: AdapterOptions = {}) {
+  return {
+    name: "next-bun-compile",
+
+    async onBuildComplete(ctx: {
+      projectDir: string;
+      repoRoot: string;
+      distDir: string;
+      buildId: string;
+      nextVersion: string;
+      config: { cacheHandler?: string; basePath?: string; i18n?: unknown };
+      routing?: Record<string, unknown>;
+      outputs?: {
+        middleware?: {
+          config?: { matchers?: Array<{ sourceRegex?: string }> };
+        };
+        prerenders?: AdapterPrerender[];
+        staticFiles?: AdapterStaticFile[];
       };
-      prerenders?: AdapterPrerender[];
-      staticFiles?: AdapterStaticFile[];
-    };
-  }) {
-    const routingRules: string[] = [];
-    for (const key of [
-      "beforeMiddleware",
-      "beforeFiles",
-      "afterFiles",
-      "onMatch",
-      "fallback",
-    ]) {
-      const list = ctx.routing?.[key];
-      if (!Array.isArray(list)) continue;
-      for (const route of list as AdapterRoute[]) {
-        // Only user-authored rules that change responses force a path back
-        // to Next. Internal built-ins are either flagged `priority` (the
-        // trailing-slash redirect), synthesized without a `source` (the
-        // /_next/static cache-control rule), or the deploymentId skew
-        // headers (a catch-all `/:path*` that would otherwise disable the
-        // tiers entirely) — behaviors the memory tiers already replicate.
-        const headerKeys = Object.keys(route.headers ?? {});
-        const isDeploymentIdRule =
-          headerKeys.length === 1 &&
-          headerKeys[0] === "x-nextjs-deployment-id";
-        if (
-          route.sourceRegex &&
-          typeof route.source === "string" &&
-          !route.priority &&
-          !isDeploymentIdRule &&
-          (headerKeys.length > 0 || route.destination || route.status)
-        ) {
-          routingRules.push(route.sourceRegex);
+    }) {
+      const routingRules: string[] = [];
+      for (const key of [
+        "beforeMiddleware",
+        "beforeFiles",
+        "afterFiles",
+        "onMatch",
+        "fallback",
+      ]) {
+        const list = ctx.routing?.[key];
+        if (!Array.isArray(list)) continue;
+        for (const route of list as AdapterRoute[]) {
+          // Only user-authored rules that change responses force a path back
+          // to Next. Internal built-ins are either flagged `priority` (the
+          // trailing-slash redirect), synthesized without a `source` (the
+          // /_next/static cache-control rule), or the deploymentId skew
+          // headers (a catch-all `/:path*` that would otherwise disable the
+          // tiers entirely) — behaviors the memory tiers already replicate.
+          const headerKeys = Object.keys(route.headers ?? {});
+          const isDeploymentIdRule =
+            headerKeys.length === 1 &&
+            headerKeys[0] === "x-nextjs-deployment-id";
+          if (
+            route.sourceRegex &&
+            typeof route.source === "string" &&
+            !route.priority &&
+            !isDeploymentIdRule &&
+            (headerKeys.length > 0 || route.destination || route.status)
+          ) {
+            routingRules.push(route.sourceRegex);
+          }
         }
       }
-    }
 
-    const prerenders = (ctx.outputs?.prerenders ?? []).flatMap((p) => {
-      if (!p.pathname) return [];
-      return [
-        {
-          pathname: p.pathname,
-          file: p.fallback?.filePath
-            ? relative(ctx.distDir, p.fallback.filePath)
-            : null,
-          status: p.fallback?.initialStatus ?? 200,
-          revalidate: p.fallback?.initialRevalidate ?? false,
-          postponed: !!p.fallback?.postponedState,
-          headers: flattenHeaders(p.fallback?.initialHeaders),
-        },
-      ];
-    });
+      const prerenders = (ctx.outputs?.prerenders ?? []).flatMap((p) => {
+        if (!p.pathname) return [];
+        return [
+          {
+            pathname: p.pathname,
+            file: p.fallback?.filePath
+              ? relative(ctx.distDir, p.fallback.filePath)
+              : null,
+            status: p.fallback?.initialStatus ?? 200,
+            revalidate: p.fallback?.initialRevalidate ?? false,
+            postponed: !!p.fallback?.postponedState,
+            headers: flattenHeaders(p.fallback?.initialHeaders),
+          },
+        ];
+      });
 
-    const staticFiles = (ctx.outputs?.staticFiles ?? []).flatMap((f) => {
-      if (!f.pathname || !f.filePath) return [];
-      if (f.pathname.startsWith("/_next/")) return [];
-      return [
-        {
-          pathname: f.pathname,
-          file: relative(ctx.distDir, f.filePath),
-        },
-      ];
-    });
+      const staticFiles = (ctx.outputs?.staticFiles ?? []).flatMap((f) => {
+        if (!f.pathname || !f.filePath) return [];
+        if (f.pathname.startsWith("/_next/")) return [];
+        return [
+          {
+            pathname: f.pathname,
+            file: relative(ctx.distDir, f.filePath),
+          },
+        ];
+      });
 
-    const snapshot: AdapterSnapshot = {
-      version: 1,
-      buildId: ctx.buildId,
-      nextVersion: ctx.nextVersion,
-      basePath: ctx.config.basePath ?? "",
-      i18n: !!ctx.config.i18n,
-      hasCustomCacheHandler: !!ctx.config.cacheHandler,
-      middlewareMatchers: (ctx.outputs?.middleware?.config?.matchers ?? [])
-        .map((m) => m.sourceRegex)
-        .filter((r): r is string => !!r),
-      routingRules,
-      prerenders,
-      staticFiles,
-    };
+      const snapshot: AdapterSnapshot = {
+        version: 1,
+        buildId: ctx.buildId,
+        nextVersion: ctx.nextVersion,
+        basePath: ctx.config.basePath ?? "",
+        i18n: !!ctx.config.i18n,
+        hasCustomCacheHandler: !!ctx.config.cacheHandler,
+        middlewareMatchers: (ctx.outputs?.middleware?.config?.matchers ?? [])
+          .map((m) => m.sourceRegex)
+          .filter((r): r is string => !!r),
+        routingRules,
+        prerenders,
+        staticFiles,
+      };
 
-    writeFileSync(
-      join(ctx.distDir, ADAPTER_OUTPUTS_FILE),
-      JSON.stringify(snapshot, null, 2)
-    );
-    console.log(
-      `next-bun-compile: adapter outputs written (${prerenders.length} prerender entries)`
-    );
+      writeFileSync(
+        join(ctx.distDir, ADAPTER_OUTPUTS_FILE),
+        JSON.stringify(snapshot, null, 2)
+      );
+      console.log(
+        `next-bun-compile: adapter outputs written (${prerenders.length} prerender entries)`
+      );
 
-    const { standaloneDir, serverDir } = await assembleStandalone(ctx);
-    await runBuild({ projectDir: ctx.projectDir, standaloneDir, serverDir });
-  },
-};
+      const { standaloneDir, serverDir, ruleHits } = await assembleStandalone(
+        ctx,
+        options.embed
+      );
+      await runBuild({
+        ...options,
+        projectDir: ctx.projectDir,
+        standaloneDir,
+        serverDir,
+        ruleHits,
+      });
+    },
+  };
+}
+
+const adapter = createAdapter();
 
 export default adapter;
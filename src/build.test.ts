@@ -0,0 +1,159 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { createHash } from "node:crypto";
+import { join } from "node:path";
+import {
+  checkBinaries,
+  resolveTargets,
+  targetOutfile,
+  writeTargetManifest,
+} from "./build.js";
+import { buildReport, readBuildReport, writeBuildReport } from "./report.js";
+
+const tmpBase = join(import.meta.dir, "..", ".test-fixtures", "build");
+
+function cleanup() {
+  if (existsSync(tmpBase)) {
+    rmSync(tmpBase, { recursive: true, force: true });
+  }
+  delete process.env.NBC_TARGET;
+  delete process.env.NBC_BUDGET;
+}
+
+beforeEach(cleanup);
+afterEach(cleanup);
+
+describe("resolveTargets", () => {
+  const cases: Array<[string, string | string[] | undefined, string | undefined, string[]]> = [
+    ["no target: the host", undefined, undefined, []],
+    ["one option target", "bun-linux-x64", undefined, ["bun-linux-x64"]],
+    ["option list", ["bun-linux-x64", "bun-darwin-arm64"], undefined, ["bun-linux-x64", "bun-darwin-arm64"]],
+    ["comma-separated option", "bun-linux-x64, bun-linux-arm64,", undefined, ["bun-linux-x64", "bun-linux-arm64"]],
+    ["duplicates collapse", ["bun-linux-x64", " bun-linux-x64"], undefined, ["bun-linux-x64"]],
+    ["NBC_TARGET wins over the option", ["bun-linux-x64"], "bun-windows-x64,bun-linux-arm64", ["bun-windows-x64", "bun-linux-arm64"]],
+    ["empty NBC_TARGET means the host", "bun-linux-x64", "", []],
+  ];
+  for (const [name, target, env, want] of cases) {
+    test(name, () => {
+      if (env !== undefined) process.env.NBC_TARGET = env;
+      expect(resolveTargets({ target })).toEqual(want);
+    });
+  }
+});
+
+describe("targetOutfile", () => {
+  const cases: Array<[string, string]> = [
+    ["bun-linux-x64", "/out/server-linux-x64"],
+    ["bun-linux-arm64-musl", "/out/server-linux-arm64-musl"],
+    ["bun-darwin-arm64", "/out/server-darwin-arm64"],
+    ["bun-windows-x64", "/out/server-windows-x64.exe"],
+    ["linux-x64", "/out/server-linux-x64"],
+  ];
+  for (const [target, want] of cases) {
+    test(`${target} → ${want}`, () => expect(targetOutfile("/out/server", target)).toBe(want));
+  }
+});
+
+describe("writeTargetManifest", () => {
+  test("lists each binary by name with its size and sha256", () => {
+    mkdirSync(tmpBase, { recursive: true });
+    const outfile = join(tmpBase, "server");
+    const outputs = [
+      { target: "bun-linux-x64", outfile: join(tmpBase, "server-linux-x64"), bytes: "linux binary" },
+      { target: "bun-windows-x64", outfile: join(tmpBase, "server-windows-x64.exe"), bytes: "windows" },
+    ];
+    for (const o of outputs) writeFileSync(o.outfile, o.bytes);
+
+    const manifestPath = writeTargetManifest(outfile, outputs);
+
+    expect(manifestPath).toBe(`${outfile}.manifest.json`);
+    expect(JSON.parse(readFileSync(manifestPath, "utf-8"))).toEqual({
+      version: 1,
+      outputs: outputs.map((o) => ({
+        target: o.target,
+        file: o.outfile.slice(tmpBase.length + 1),
+        size: o.bytes.length,
+        sha256: createHash("sha256").update(o.bytes).digest("hex"),
+      })),
+    });
+  });
+});
+
+describe("checkBinaries", () => {
+  /** A dist dir with an empty build report and binaries of the given sizes. */
+  function setup(sizes: Record<string, number>) {
+    const distDir = join(tmpBase, ".next");
+    mkdirSync(distDir, { recursive: true });
+    writeBuildReport(
+      distDir,
+      buildReport({
+        files: [],
+        added: [],
+        removed: [],
+        tiers: { static: [], public: [], pages: [] },
+      })
+    );
+    for (const [name, bytes] of Object.entries(sizes)) {
+      writeFileSync(join(tmpBase, name), "x".repeat(bytes));
+    }
+    return distDir;
+  }
+
+  test("records each binary in the report; no budget, nothing enforced", () => {
+    const distDir = setup({ server: 300, "server-windows-x64.exe": 200 });
+    checkBinaries(
+      distDir,
+      [
+        { outfile: join(tmpBase, "server") },
+        // bun appended the .exe itself
+        { target: "bun-windows-x64", outfile: join(tmpBase, "server-windows-x64") },
+      ],
+      {}
+    );
+    const report = readBuildReport(distDir)!;
+    expect(report.binaries).toEqual([
+      { target: null, file: "server", bytes: 300 },
+      { target: "bun-windows-x64", file: "server-windows-x64.exe", bytes: 200 },
+    ]);
+    expect(report.budgetBytes).toBeUndefined();
+  });
+
+  test("within budget: the budget is recorded and the binary stays", () => {
+    const distDir = setup({ server: 1000 });
+    checkBinaries(distDir, [{ outfile: join(tmpBase, "server") }], { budget: "1k" });
+    expect(readBuildReport(distDir)!.budgetBytes).toBe(1024);
+    expect(existsSync(join(tmpBase, "server"))).toBe(true);
+  });
+
+  test("over budget: fails naming the binary and renames it aside", () => {
+    const distDir = setup({ "server-linux-x64": 2048, "server-linux-arm64": 512 });
+    const outputs = [
+      { target: "bun-linux-x64", outfile: join(tmpBase, "server-linux-x64") },
+      { target: "bun-linux-arm64", outfile: join(tmpBase, "server-linux-arm64") },
+    ];
+    expect(() => checkBinaries(distDir, outputs, { budget: 1024 })).toThrow(
+      /over the 1\.0 KB size budget: server-linux-x64 is 2\.0 KB/
+    );
+    expect(existsSync(join(tmpBase, "server-linux-x64"))).toBe(false);
+    expect(existsSync(join(tmpBase, "server-linux-x64.over-budget"))).toBe(true);
+    expect(existsSync(join(tmpBase, "server-linux-arm64"))).toBe(true);
+    // The report still shows what was built, and against what.
+    const report = readBuildReport(distDir)!;
+    expect(report.binaries!.map((b) => b.bytes)).toEqual([2048, 512]);
+    expect(report.budgetBytes).toBe(1024);
+  });
+
+  test("NBC_BUDGET wins over the option", () => {
+    const distDir = setup({ server: 2048 });
+    process.env.NBC_BUDGET = "1mb";
+    checkBinaries(distDir, [{ outfile: join(tmpBase, "server") }], { budget: 1 });
+    expect(readBuildReport(distDir)!.budgetBytes).toBe(1024 ** 2);
+  });
+
+  test("an unparseable budget fails the build", () => {
+    const distDir = setup({ server: 10 });
+    expect(() =>
+      checkBinaries(distDir, [{ outfile: join(tmpBase, "server") }], { budget: "huge" })
+    ).toThrow(/can't parse size budget "huge"/);
+  });
+});
@@ -1,42 +1,182 @@
-import { copyFileSync, existsSync, mkdirSync, statSync } from "node:fs";
+import { createHash } from "node:crypto";
+import {
+  copyFileSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  statSync,
+  writeFileSync,
+} from "node:fs";
 import { createRequire } from "node:module";
-import { dirname, isAbsolute, join } from "node:path";
-import { generateEntryPoint } from "./generate.js";
+import { basename, dirname, isAbsolute, join } from "node:path";
+import {
+  generateEntryPoint,
+  targetEntryFile,
+  type EmbedRuleHits,
+  type EmbedRules,
+  type TierOptions,
+} from "./generate.js";
 import { compile } from "./compile.js";
+import {
+  formatBytes,
+  parseBytes,
+  readBuildReport,
+  writeBuildReport,
+} from "./report.js";
 
-export interface RunBuildOptions {
-  projectDir: string;
-  /** The adapter-assembled standalone-layout input tree. */
-  standaloneDir: string;
-  /** App dir inside that tree (nested for monorepo layouts). */
-  serverDir: string;
-  /** Extra args appended to the `bun build` invocation. */
-  extraArgs?: string[];
+/** The user-facing build knobs — what `createAdapter()` accepts. */
+export interface BuildOptions {
   /**
    * Output directory for the binary, relative to projectDir (or absolute).
    * Default: the project root. A future major moves this to "dist".
+   * NBC_OUT overrides.
    */
   out?: string;
-  /** Binary filename. Default: "server". */
+  /** Binary filename. Default: "server". NBC_BINARY overrides. */
   binaryName?: string;
+  /**
+   * Bun cross-compile target, e.g. "bun-linux-x64", or a list of targets
+   * compiled from the same generated entry. Default: the host.
+   * NBC_TARGET (comma-separated for a list) overrides.
+   */
+  target?: string | string[];
+  /** Extra args appended to the `bun build` invocation. */
+  extraArgs?: string[];
+  /** Turn individual memory tiers off (all on by default). */
+  tiers?: TierOptions;
+  /** Glob rules for which node_modules files get embedded. */
+  embed?: EmbedRules;
+  /**
+   * Fail the build when a compiled binary is larger than this — bytes, or
+   * a size like "120mb". The binary is renamed to `<name>.over-budget`.
+   * NBC_BUDGET overrides.
+   */
+  budget?: number | string;
+}
+
+export interface RunBuildOptions extends BuildOptions {
+  projectDir: string;
+  /** The adapter-assembled standalone-layout input tree. */
+  standaloneDir: string;
+  /** App dir inside that tree (nested for monorepo layouts). */
+  serverDir: string;
+  /** What embed rules changed while the tree was assembled. */
+  ruleHits?: EmbedRuleHits;
 }
 
 /**
  * Where the compiled binary is written. Overridable so callers can place it
  * off-root — e.g. dist/app to match homeport's other framework adapters, which
  * also avoids ever naming a file `server` (Nitro treats server/ as a
- * convention dir). Precedence: explicit option → env (NBC_OUT / NBC_BINARY,
- * for the adapter and CLI flows that have no argv) → the historical default
- * <projectDir>/server. The default is preserved for backward compatibility;
- * a future major moves it to dist/app.
+ * convention dir). Precedence: env (NBC_OUT / NBC_BINARY, so a CI job can
+ * redirect one build without touching next.config) → the createAdapter
+ * option → the historical default <projectDir>/server. The default is
+ * preserved for backward compatibility; a future major moves it to dist/app.
  */
 function resolveOutfile(projectDir: string, options: RunBuildOptions): string {
-  const outDir = options.out ?? process.env.NBC_OUT ?? projectDir;
-  const binaryName = options.binaryName ?? process.env.NBC_BINARY ?? "server";
+  const outDir = process.env.NBC_OUT ?? options.out ?? projectDir;
+  const binaryName = process.env.NBC_BINARY ?? options.binaryName ?? "server";
   const base = isAbsolute(outDir) ? outDir : join(projectDir, outDir);
   return join(base, binaryName);
 }
 
+/**
+ * The targets to compile. More than one switches to multi-target output:
+ * each binary is named `<binaryName>-<target minus "bun-">`.
+ */
+export function resolveTargets(options: Pick<BuildOptions, "target">): string[] {
+  const raw = process.env.NBC_TARGET ?? options.target;
+  const list = Array.isArray(raw) ? raw : (raw ?? "").split(",");
+  return [...new Set(list.map((t) => t.trim()).filter(Boolean))];
+}
+
+/** e.g. server + bun-linux-arm64-musl → server-linux-arm64-musl; Windows
+ *  targets get the .exe bun would otherwise append behind our back. */
+export function targetOutfile(base: string, target: string): string {
+  const suffix = target.replace(/^bun-/, "");
+  return `${base}-${suffix}${/windows/.test(target) ? ".exe" : ""}`;
+}
+
+/**
+ * Lists every binary of a multi-target build with its size and sha256,
+ * next to the binaries as <binaryName>.manifest.json — what a release
+ * job uploads and verifies against.
+ */
+export function writeTargetManifest(
+  outfile: string,
+  outputs: Array<{ target: string; outfile: string }>
+): string {
+  const manifestPath = `${outfile}.manifest.json`;
+  const entries = outputs.map(({ target, outfile: file }) => ({
+    target,
+    file: basename(file),
+    size: statSync(file).size,
+    sha256: createHash("sha256").update(readFileSync(file)).digest("hex"),
+  }));
+  writeFileSync(
+    manifestPath,
+    JSON.stringify({ version: 1, outputs: entries }, null, 2) + "\n"
+  );
+  console.log(
+    `next-bun-compile: wrote ${entries.length} target(s) to ${manifestPath}`
+  );
+  return manifestPath;
+}
+
+/**
+ * Records each binary's size in the build report and enforces the size
+ * budget — after compiling, since the binary (not the embedded total) is
+ * what a budget is about: it includes Bun itself and the bundled entry.
+ * A binary over budget is renamed aside (`<name>.over-budget`) so a
+ * deploy step that picks up the usual name can't ship it, while it stays
+ * around to inspect.
+ */
+export function checkBinaries(
+  distDir: string,
+  outputs: Array<{ target?: string; outfile: string }>,
+  options: Pick<BuildOptions, "budget">
+): void {
+  const paths = new Map<string, string>(); // file → path
+  const binaries = outputs.map(({ target, outfile }) => {
+    // bun appends .exe for Windows targets when the name lacks it
+    const file = existsSync(outfile) ? outfile : `${outfile}.exe`;
+    paths.set(basename(file), file);
+    return {
+      target: target ?? null,
+      file: basename(file),
+      bytes: statSync(file).size,
+    };
+  });
+  const rawBudget = process.env.NBC_BUDGET ?? options.budget;
+  const budget =
+    typeof rawBudget === "string" ? parseBytes(rawBudget) : rawBudget;
+  if (rawBudget !== undefined && !Number.isFinite(budget)) {
+    throw new Error(
+      `next-bun-compile: can't parse size budget "${rawBudget}" — use bytes or e.g. "120mb"`
+    );
+  }
+
+  const report = readBuildReport(distDir);
+  if (report) {
+    report.binaries = binaries;
+    if (budget !== undefined) report.budgetBytes = budget;
+    writeBuildReport(distDir, report);
+  }
+
+  if (budget === undefined) return;
+  const over = binaries.filter((b) => b.bytes > budget);
+  if (over.length > 0) {
+    for (const b of over) {
+      const file = paths.get(b.file)!;
+      renameSync(file, `${file}.over-budget`);
+    }
+    throw new Error(
+      `next-bun-compile: over the ${formatBytes(budget)} size budget: ${over.map((b) => `${b.file} is ${formatBytes(b.bytes)}`).join(", ")} (renamed to *.over-budget). See .next/nbc-report.html for what's embedded.`
+    );
+  }
+}
+
 /**
  * The server orchestration graph the runtime boots (router-server →
  * next-server chain) is loaded at runtime from the extracted tree via
@@ -107,7 +247,9 @@ async function ensureServerRuntime(
 /**
  * The full compile pipeline: adapter-assembled input tree → embedded-asset
  * entrypoint → single-file executable at <projectDir>/server. Invoked by
- * the build adapter's onBuildComplete.
+ * the build adapter's onBuildComplete. With several targets the tree and
+ * entrypoint are generated once and only `bun build --compile` repeats;
+ * the returned path is then the target manifest rather than a binary.
  */
 export async function runBuild(options: RunBuildOptions): Promise<string> {
   const { projectDir, standaloneDir, serverDir, extraArgs = [] } = options;
@@ -115,9 +257,37 @@ export async function runBuild(options: RunBuildOptions): Promise<string> {
 
   await ensureServerRuntime(projectDir, standaloneDir);
 
-  generateEntryPoint({ standaloneDir, serverDir, distDir, projectDir });
+  const targets = resolveTargets(options);
+  generateEntryPoint({
+    standaloneDir,
+    serverDir,
+    distDir,
+    projectDir,
+    tiers: options.tiers,
+    embed: options.embed,
+    targets,
+    ruleHits: options.ruleHits,
+  });
   const outfile = resolveOutfile(projectDir, options);
   mkdirSync(dirname(outfile), { recursive: true });
-  compile({ serverDir, outfile, extraArgs });
-  return outfile;
+  if (targets.length <= 1) {
+    compile({ serverDir, outfile, target: targets[0], extraArgs });
+    checkBinaries(distDir, [{ target: targets[0], outfile }], options);
+    return outfile;
+  }
+
+  const outputs = targets.map((target) => ({
+    target,
+    outfile: targetOutfile(outfile, target),
+  }));
+  for (const output of outputs) {
+    compile({
+      serverDir,
+      entry: targetEntryFile(output.target),
+      ...output,
+      extraArgs,
+    });
+  }
+  checkBinaries(distDir, outputs, options);
+  return writeTargetManifest(outfile, outputs);
 }
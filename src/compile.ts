@@ -3,13 +3,23 @@ import { join } from "node:path";
 
 interface CompileOptions {
   serverDir: string;
+  /** Generated entry inside serverDir. Default: "server-entry.js". */
+  entry?: string;
   outfile: string;
+  /** Bun cross-compile target (`--target`); omitted builds for the host. */
+  target?: string;
   extraArgs?: string[];
 }
 
 export function compile(options: CompileOptions): void {
-  const { serverDir, outfile, extraArgs = [] } = options;
-  const entryPoint = join(serverDir, "server-entry.js");
+  const {
+    serverDir,
+    entry = "server-entry.js",
+    outfile,
+    target,
+    extraArgs = [],
+  } = options;
+  const entryPoint = join(serverDir, entry);
 
   // No --bytecode: it only covers the statically bundled entry graph, while
   // nearly all request-path code (SSR chunks, pages, externalized packages)
@@ -45,8 +55,8 @@ export function compile(options: CompileOptions): void {
     "--outfile",
     outfile,
     // Cross-compile target for flows with no CLI to pass --target
-    // (the build adapter): NBC_TARGET=bun-linux-x64 next build
-    ...(process.env.NBC_TARGET ? [`--target=${process.env.NBC_TARGET}`] : []),
+    // (the build adapter): createAdapter({ target }) or NBC_TARGET
+    ...(target ? [`--target=${target}`] : []),
     ...extraArgs,
   ];
 
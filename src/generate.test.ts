@@ -9,10 +9,17 @@ import {
   symlinkSync,
 } from "node:fs";
 import { join } from "node:path";
+import { brotliDecompressSync } from "node:zlib";
 import {
   generateEntryPoint,
+  globToRegExp,
+  includeRulePackage,
   isPrunableModuleFile,
+  nodeModulesPath,
+  platformPackageNames,
   shouldCompressEmbeddedAsset,
+  targetEntryFile,
+  targetPlatform,
 } from "./generate.js";
 
 const tmpBase = join(import.meta.dir, "..", ".test-fixtures");
@@ -584,6 +591,48 @@ describe("generateEntryPoint", () => {
     expect(entry).toMatch(/const buildStamp = "[0-9a-f]{64}" \+ "\\n" \+ baseDir;/);
   });
 
+  test("bundles nbc.server / nbc.websocket modules into the entry when present", () => {
+    const files = {
+      ".next/required-server-files.json": MOCK_RSF,
+      ".next/BUILD_ID": "test-build-id",
+      ".next/nbc-adapter-outputs.json": mockSnapshot(),
+      ".next/standalone/server.js": MOCK_SERVER_JS,
+      ".next/standalone/.next/server/chunks/ssr.js": `// chunk`,
+      ".next/standalone/node_modules/next/package.json": MOCK_NEXT_PKG,
+      ".next/standalone/node_modules/next/dist/server/require-hook.js": MOCK_REQUIRE_HOOK,
+    };
+    const entryFor = (name: string, extra: Record<string, string>) => {
+      const root = join(tmpBase, name);
+      const standaloneDir = join(root, ".next", "standalone");
+      scaffold(root, { ...files, ...extra });
+      generateEntryPoint({
+        standaloneDir,
+        serverDir: standaloneDir,
+        distDir: join(root, ".next"),
+        projectDir: root,
+      });
+      return readFileSync(join(standaloneDir, "server-entry.js"), "utf-8");
+    };
+
+    const withHooks = entryFor("hooks", {
+      "nbc.server.ts": "export const onRequest = () => {};",
+      "nbc.websocket.mjs": "export const path = '/ws'; export const websocket = {};",
+    });
+    expect(withHooks).toContain(
+      `import * as __nbcHooks from ${JSON.stringify(join(tmpBase, "hooks", "nbc.server.ts"))};`
+    );
+    expect(withHooks).toContain(
+      `import * as __nbcWebSocket from ${JSON.stringify(join(tmpBase, "hooks", "nbc.websocket.mjs"))};`
+    );
+    expect(withHooks).toContain("hooks: __nbcHooks,");
+    expect(withHooks).toContain("webSocket: __nbcWebSocket,");
+
+    const without = entryFor("no-hooks", {});
+    expect(without).not.toContain("__nbcHooks");
+    expect(without).not.toContain("__nbcWebSocket");
+    expect(without).toContain("hooks: undefined,");
+  });
+
   test("build stamp changes when embedded asset content changes", () => {
     const files = {
       ".next/required-server-files.json": MOCK_RSF,
@@ -711,6 +760,196 @@ describe("generateEntryPoint", () => {
     expect(assets).not.toContain("app-page.runtime.dev.js");
     expect(assets).not.toContain("webpack/bundle5.js");
     expect(assets).not.toContain("react-dom.development.js");
+
+    const report = JSON.parse(readFileSync(join(distDir, "nbc-report.json"), "utf-8"));
+    expect(report.packages.map((p: { name: string }) => p.name)).toContain("next");
+    expect(report.categories.public.files).toBe(1);
+    expect(report.tiers.public).toEqual(["/favicon.ico"]);
+    expect(report.removed).toContainEqual({
+      path: "react-dom/cjs/react-dom.development.js",
+      reason: "build-time only",
+    });
+    const file = report.files.find(
+      (f: { path: string }) => f.path === "__runtime/.next/node_modules/next/dist/compiled/next-server/app-page.runtime.prod.js"
+    );
+    expect(file).toMatchObject({ category: "package", package: "next", rawBytes: 15 });
+    expect(existsSync(join(distDir, "nbc-report.html"))).toBe(true);
+  });
+
+  test("applies embed rules and tier toggles", () => {
+    const root = join(tmpBase, "embed-rules");
+    const distDir = join(root, ".next");
+    const standaloneDir = join(distDir, "standalone");
+    const projectDir = root;
+
+    scaffold(root, {
+      ".next/required-server-files.json": MOCK_RSF,
+      ".next/BUILD_ID": "test-build-id",
+      ".next/nbc-adapter-outputs.json": mockSnapshot(),
+      ".next/static/chunks/app.js": "// app chunk",
+      ".next/standalone/server.js": MOCK_SERVER_JS,
+      ".next/standalone/.next/BUILD_ID": "test-build-id",
+      ".next/standalone/.next/server/chunks/ssr.js": `// no externals`,
+      ".next/standalone/node_modules/next/package.json": MOCK_NEXT_PKG,
+      ".next/standalone/node_modules/next/dist/server/require-hook.js": MOCK_REQUIRE_HOOK,
+      ".next/standalone/node_modules/big-sdk/dist-es/index.js": "// esm copy",
+      ".next/standalone/node_modules/big-sdk/dist-cjs/index.js": "// cjs copy",
+      ".next/standalone/node_modules/mylib/index.js.map": "{}",
+      ".next/standalone/node_modules/mylib/index.js": "// lib",
+      "public/favicon.ico": "icon",
+    });
+
+    generateEntryPoint({
+      standaloneDir,
+      serverDir: standaloneDir,
+      distDir,
+      projectDir,
+      tiers: { public: false },
+      embed: { exclude: ["big-sdk/dist-es/**"], include: ["mylib/*.map"] },
+      // the adapter already forced the map in (it wasn't traced)
+      ruleHits: {
+        added: [{ path: "mylib/index.js.map", reason: 'embed.include "mylib/*.map"' }],
+        removed: [],
+      },
+    });
+
+    const assets = readFileSync(join(standaloneDir, "assets.generated.js"), "utf-8");
+    expect(assets).toContain("big-sdk/dist-cjs/index.js");
+    expect(assets).not.toContain("big-sdk/dist-es/index.js");
+    expect(assets).toContain("mylib/index.js.map");
+    // a disabled tier's files are still embedded for Next to serve
+    expect(assets).toContain('"/favicon.ico"');
+
+    const entry = readFileSync(join(standaloneDir, "server-entry.js"), "utf-8");
+    const tier1 = entry.split("\n").find((l) => l.startsWith("const __NBC_TIER1 ="));
+    expect(tier1).toContain("/_next/static/chunks/app.js");
+    expect(tier1).not.toContain("/favicon.ico");
+
+    // the report names the rule behind every file it moved
+    const report = JSON.parse(readFileSync(join(distDir, "nbc-report.json"), "utf-8"));
+    expect(report.removed).toContainEqual({
+      path: "big-sdk/dist-es/index.js",
+      reason: 'embed.exclude "big-sdk/dist-es/**"',
+    });
+    // once, though the module walk here rescued it from pruning too
+    expect(report.added).toEqual([
+      { path: "mylib/index.js.map", reason: 'embed.include "mylib/*.map"' },
+    ]);
+  });
+
+  test("embeds each target's native package variant, not the host's", () => {
+    const root = join(tmpBase, "native-targets");
+    const distDir = join(root, ".next");
+    const standaloneDir = join(distDir, "standalone");
+    const projectDir = root;
+    const platformPkg = (name: string, os: string, cpu: string, libc?: string) =>
+      JSON.stringify({ name, os: [os], cpu: [cpu], ...(libc && { libc: [libc] }) });
+
+    scaffold(root, {
+      ".next/required-server-files.json": MOCK_RSF,
+      ".next/BUILD_ID": "test-build-id",
+      ".next/nbc-adapter-outputs.json": mockSnapshot(),
+      ".next/standalone/server.js": MOCK_SERVER_JS,
+      ".next/standalone/.next/BUILD_ID": "test-build-id",
+      ".next/standalone/.next/server/chunks/ssr.js": `// no externals`,
+      ".next/standalone/node_modules/next/package.json": MOCK_NEXT_PKG,
+      ".next/standalone/node_modules/next/dist/server/require-hook.js": MOCK_REQUIRE_HOOK,
+      ".next/standalone/node_modules/sharp/lib/index.js": "// sharp",
+      // what the build host traced
+      ".next/standalone/node_modules/@img/sharp-freebsd-x64/package.json": platformPkg("@img/sharp-freebsd-x64", "freebsd", "x64"),
+      ".next/standalone/node_modules/@img/sharp-freebsd-x64/lib/sharp.node": "host",
+      // installed for the targets, never traced
+      "node_modules/@img/sharp-linux-arm64/package.json": platformPkg("@img/sharp-linux-arm64", "linux", "arm64", "glibc"),
+      "node_modules/@img/sharp-linux-arm64/lib/sharp.node": "arm64",
+      "node_modules/@img/sharp-linuxmusl-x64/package.json": platformPkg("@img/sharp-linuxmusl-x64", "linux", "x64", "musl"),
+      "node_modules/@img/sharp-linuxmusl-x64/lib/sharp.node": "musl",
+      "public/favicon.ico": "icon",
+    });
+
+    generateEntryPoint({
+      standaloneDir,
+      serverDir: standaloneDir,
+      distDir,
+      projectDir,
+      targets: ["bun-linux-arm64", "bun-linux-x64-musl"],
+    });
+
+    const arm = readFileSync(join(standaloneDir, "assets.linux-arm64.generated.js"), "utf-8");
+    expect(arm).toContain("sharp/lib/index.js");
+    expect(arm).toContain("@img/sharp-linux-arm64/lib/sharp.node");
+    expect(arm).not.toContain("sharp-linuxmusl-x64");
+    expect(arm).not.toContain("sharp-freebsd-x64");
+    const musl = readFileSync(join(standaloneDir, "assets.linux-x64-musl.generated.js"), "utf-8");
+    expect(musl).toContain("@img/sharp-linuxmusl-x64/lib/sharp.node");
+    expect(musl).not.toContain("sharp-linux-arm64");
+
+    const entry = readFileSync(join(standaloneDir, targetEntryFile("bun-linux-arm64")), "utf-8");
+    expect(entry).toContain('from "./assets.linux-arm64.generated.js"');
+    expect(existsSync(join(standaloneDir, "server-entry.js"))).toBe(false);
+
+    // the report says which target each variant's files belong to
+    const report = JSON.parse(readFileSync(join(distDir, "nbc-report.json"), "utf-8"));
+    const file = report.files.find((f: { path: string }) =>
+      f.path.endsWith("@img/sharp-linux-arm64/lib/sharp.node")
+    );
+    expect(file.targets).toEqual(["bun-linux-arm64"]);
+  });
+
+  test("a host build's native packages carry no target in the report", () => {
+    const root = join(tmpBase, "native-host");
+    const distDir = join(root, ".next");
+    const standaloneDir = join(distDir, "standalone");
+    const hostPkg = JSON.stringify({
+      name: "@img/sharp-host",
+      os: [process.platform],
+      cpu: [process.arch],
+    });
+
+    scaffold(root, {
+      ".next/required-server-files.json": MOCK_RSF,
+      ".next/BUILD_ID": "test-build-id",
+      ".next/nbc-adapter-outputs.json": mockSnapshot(),
+      ".next/standalone/server.js": MOCK_SERVER_JS,
+      ".next/standalone/.next/BUILD_ID": "test-build-id",
+      ".next/standalone/node_modules/next/package.json": MOCK_NEXT_PKG,
+      ".next/standalone/node_modules/next/dist/server/require-hook.js": MOCK_REQUIRE_HOOK,
+      ".next/standalone/node_modules/@img/sharp-host/package.json": hostPkg,
+      ".next/standalone/node_modules/@img/sharp-host/lib/sharp.node": "host",
+    });
+
+    generateEntryPoint({ standaloneDir, serverDir: standaloneDir, distDir, projectDir: root });
+
+    const report = JSON.parse(readFileSync(join(distDir, "nbc-report.json"), "utf-8"));
+    const files = report.files.filter((f: { package?: string }) => f.package === "@img/sharp-host");
+    expect(files.length).toBeGreaterThan(0);
+    for (const f of files) expect(f).not.toHaveProperty("targets");
+  });
+
+  test("fails when a target's native package variant isn't installed", () => {
+    const root = join(tmpBase, "native-missing");
+    const distDir = join(root, ".next");
+    const standaloneDir = join(distDir, "standalone");
+
+    scaffold(root, {
+      ".next/required-server-files.json": MOCK_RSF,
+      ".next/BUILD_ID": "test-build-id",
+      ".next/nbc-adapter-outputs.json": mockSnapshot(),
+      ".next/standalone/server.js": MOCK_SERVER_JS,
+      ".next/standalone/.next/BUILD_ID": "test-build-id",
+      ".next/standalone/node_modules/next/package.json": MOCK_NEXT_PKG,
+      ".next/standalone/node_modules/next/dist/server/require-hook.js": MOCK_REQUIRE_HOOK,
+      ".next/standalone/node_modules/@img/sharp-freebsd-x64/package.json": JSON.stringify({ os: ["freebsd"], cpu: ["x64"] }),
+    });
+
+    expect(() =>
+      generateEntryPoint({
+        standaloneDir,
+        serverDir: standaloneDir,
+        distDir,
+        projectDir: root,
+        targets: ["bun-linux-arm64"],
+      })
+    ).toThrow("@img/sharp-linux-arm64 or @img/sharp-linux-arm64-gnu (bun-linux-arm64)");
   });
 
   test("gzip-embeds large compressible runtime files, leaves the rest raw", () => {
@@ -757,6 +996,48 @@ describe("generateEntryPoint", () => {
     expect(entry).toContain("gzippedAssets");
     expect(entry).toContain("gunzipSync");
   });
+  test("precompresses served static assets at build time and embeds the variants", () => {
+    const root = join(tmpBase, "precompress");
+    const distDir = join(root, ".next");
+    const standaloneDir = join(distDir, "standalone");
+    const projectDir = root;
+
+    const chunk = `// app chunk\n${"export const x = 'compressible';\n".repeat(200)}`;
+    scaffold(root, {
+      ".next/required-server-files.json": MOCK_RSF,
+      ".next/BUILD_ID": "test-build-id",
+      ".next/nbc-adapter-outputs.json": mockSnapshot(),
+      ".next/static/chunks/app.js": chunk,
+      ".next/static/chunks/tiny.js": "// tiny",
+      ".next/standalone/server.js": MOCK_SERVER_JS,
+      ".next/standalone/.next/BUILD_ID": "test-build-id",
+      ".next/standalone/.next/server/chunks/ssr.js": `// no externals`,
+      ".next/standalone/node_modules/next/package.json": MOCK_NEXT_PKG,
+      ".next/standalone/node_modules/next/dist/server/require-hook.js": MOCK_REQUIRE_HOOK,
+      "public/favicon.ico": "icon",
+    });
+
+    generateEntryPoint({ standaloneDir, serverDir: standaloneDir, distDir, projectDir });
+
+    const assets = readFileSync(join(standaloneDir, "assets.generated.js"), "utf-8");
+    const line = assets
+      .split("\n")
+      .find((l) => l.startsWith('  ["/_next/static/chunks/app.js", {'));
+    expect(line).toBeDefined();
+    expect(line).toContain("br: precompressed_0_br");
+    expect(line).toContain("gzip: precompressed_0_gzip");
+    expect(assets).not.toContain('["/_next/static/chunks/tiny.js", {');
+
+    const dir = join(standaloneDir, ".next/__precompressed");
+    const br = readFileSync(join(dir, "0.br"));
+    expect(Bun.gunzipSync(readFileSync(join(dir, "0.gzip")))).toEqual(
+      new TextEncoder().encode(chunk)
+    );
+    expect(brotliDecompressSync(br).toString()).toBe(chunk);
+
+    const entry = readFileSync(join(standaloneDir, "server-entry.js"), "utf-8");
+    expect(entry).toContain("precompressed,");
+  });
 });
 
 describe("shouldCompressEmbeddedAsset", () => {
@@ -781,6 +1062,76 @@ describe("shouldCompressEmbeddedAsset", () => {
   }
 });
 
+describe("platformPackageNames", () => {
+  const cases: Array<[string, string, string[]]> = [
+    // sharp: libc folded into the os token
+    ["@img/sharp-linuxmusl-x64", "bun-linux-arm64", ["@img/sharp-linux-arm64"]],
+    ["@img/sharp-libvips-linuxmusl-arm64", "bun-linux-x64-musl", ["@img/sharp-libvips-linuxmusl-x64"]],
+    // napi-rs: explicit abi suffix
+    ["@next/swc-linux-x64-gnu", "bun-linux-arm64-musl", ["@next/swc-linux-arm64-musl"]],
+    ["@node-rs/argon2-linux-x64-musl", "bun-windows-x64", ["@node-rs/argon2-win32-x64-msvc"]],
+    ["@node-rs/argon2-linux-x64-gnu", "bun-darwin-arm64", ["@node-rs/argon2-darwin-arm64"]],
+    // bare token: either scheme, sharp's first
+    ["@img/sharp-linux-x64", "bun-linux-x64-musl", ["@img/sharp-linuxmusl-x64", "@img/sharp-linux-x64-musl"]],
+    ["@img/sharp-darwin-arm64", "bun-linux-arm64-baseline", ["@img/sharp-linux-arm64", "@img/sharp-linux-arm64-gnu"]],
+    ["@img/sharp-darwin-arm64", "bun-darwin-x64", ["@img/sharp-darwin-x64"]],
+    // no platform token to swap
+    ["fsevents", "bun-linux-x64", []],
+  ];
+  for (const [name, target, want] of cases) {
+    test(`${name} for ${target} → ${want.join(" | ") || "none"}`, () => {
+      expect(platformPackageNames(name, targetPlatform(target))).toEqual(want);
+    });
+  }
+});
+
+describe("globToRegExp", () => {
+  const cases: Array<[string, string, boolean]> = [
+    ["big-sdk/dist-es/**", "big-sdk/dist-es/a/b.js", true],
+    ["big-sdk/dist-es/**", "big-sdk/dist-cjs/a.js", false],
+    ["**/*.map", "sharp/lib/index.js.map", true],
+    ["**/*.map", "index.js.map", true],
+    ["*.map", "sharp/index.js.map", false],
+    ["@img/sharp-*/**", "@img/sharp-linux-x64/lib/x.node", true],
+    ["a/?.js", "a/b.js", true],
+    ["a/?.js", "a/bc.js", false],
+    ["{foo,bar}/index.js", "bar/index.js", true],
+    ["{foo,bar}/index.js", "baz/index.js", false],
+    ["a+b/(x).js", "a+b/(x).js", true],
+  ];
+  for (const [glob, mod, want] of cases) {
+    test(`${glob} ${want ? "matches" : "skips"} ${mod}`, () => {
+      expect(globToRegExp(glob).test(mod)).toBe(want);
+    });
+  }
+});
+
+describe("nodeModulesPath", () => {
+  const cases: Array<[string, string | null]> = [
+    ["node_modules/sharp/lib/index.js", "sharp/lib/index.js"],
+    ["apps/web/node_modules/@img/sharp-linux-x64/lib/x.node", "@img/sharp-linux-x64/lib/x.node"],
+    ["node_modules/.pnpm/prisma@5.0.0/node_modules/prisma/engines/a.so", "prisma/engines/a.so"],
+    ["node_modules/.pnpm/lock.yaml", null],
+    [".next/server/chunks/ssr.js", null],
+  ];
+  for (const [path, want] of cases) {
+    test(`${path} → ${want}`, () => expect(nodeModulesPath(path)).toBe(want));
+  }
+});
+
+describe("includeRulePackage", () => {
+  const cases: Array<[string, string | null]> = [
+    ["@prisma/engines/**", "@prisma/engines"],
+    ["pdfkit/js/data/*.afm", "pdfkit"],
+    ["**/*.wasm", null],
+    ["@img/*/lib/**", null],
+    ["sharp", null],
+  ];
+  for (const [glob, want] of cases) {
+    test(`${glob} → ${want}`, () => expect(includeRulePackage(glob)).toBe(want));
+  }
+});
+
 describe("isPrunableModuleFile", () => {
   const cases: Array<[string, boolean]> = [
     // sourcemaps anywhere in node_modules — referenced only by
@@ -12,7 +12,26 @@ import {
 } from "node:fs";
 import { join, relative, basename } from "node:path";
 import { createHash } from "node:crypto";
+import * as zlib from "node:zlib";
 import { gzipSync } from "node:zlib";
+import {
+  buildReport,
+  formatBytes,
+  writeBuildReport,
+  type ReportFile,
+} from "./report.js";
+
+/** Extensions tried, in order, for the optional project-root modules
+ *  (nbc.server.*, nbc.websocket.*) bundled into the entry. */
+const PROJECT_MODULE_EXTS = [".ts", ".mts", ".js", ".mjs"];
+
+function findProjectModule(projectDir: string, name: string): string | null {
+  for (const ext of PROJECT_MODULE_EXTS) {
+    const file = join(projectDir, name + ext);
+    if (existsSync(file)) return file;
+  }
+  return null;
+}
 
 interface GenerateOptions {
   standaloneDir: string;
@@ -21,8 +40,80 @@ interface GenerateOptions {
   serverDir: string;
   distDir: string;
   projectDir: string;
+  /** Which memory tiers the runtime may serve from (all on by default). */
+  tiers?: TierOptions;
+  /** Glob rules adjusting which node_modules files are embedded. */
+  embed?: EmbedRules;
+  /**
+   * Bun compile targets the entry is generated for (default: the host).
+   * With more than one, each gets its own entry — see targetEntryFile —
+   * embedding only its own platform's native packages.
+   */
+  targets?: string[];
+  /** Files the adapter's tree assembly already added or left out by an
+   *  embed rule — carried into the build report. */
+  ruleHits?: EmbedRuleHits;
+}
+
+/** The generated entry `bun build` compiles for `target` when one
+ *  generation serves several targets; a lone target uses server-entry.js. */
+export function targetEntryFile(target: string): string {
+  return `server-entry.${target.replace(/^bun-/, "")}.js`;
+}
+
+/**
+ * Per-tier switches. A tier that's off still has its files embedded —
+ * Next needs them to answer the request — it just isn't answered from
+ * memory by the Bun.serve runtime.
+ */
+export interface TierOptions {
+  /** /_next/static/* assets. Default: true. */
+  static?: boolean;
+  /** public/ files. Default: true. */
+  public?: boolean;
+  /** Prerendered pages (Tier 2). Default: true. */
+  pages?: boolean;
+}
+
+/**
+ * Globs matched against the canonical module path relative to
+ * node_modules (e.g. "next/dist/compiled/**\/*.dev.js"). `exclude` drops
+ * matching files from the binary — and from the assembled tree, so they
+ * aren't even copied. `include` forces files in: it keeps files the
+ * built-in prune list would drop, wins over `exclude`, and, when the glob
+ * starts with a package name, copies matching files from the project's
+ * node_modules that nothing traced (read through `fs` at runtime).
+ */
+export interface EmbedRules {
+  include?: string[];
+  exclude?: string[];
 }
 
+/** Files an embed rule added or removed; `reason` names the rule, e.g.
+ *  `embed.exclude "prisma/**\/libquery_engine-*"`. */
+export interface EmbedRuleHits {
+  added: Array<{ path: string; reason: string }>;
+  removed: Array<{ path: string; reason: string }>;
+}
+
+/**
+ * The adapter's hits followed by this build's, one entry per path: a
+ * file the adapter forced in that is also prunable shows up again when
+ * the module walk rescues it, and only the first (the adapter's) counts.
+ */
+function mergeRuleHits(
+  first: EmbedRuleHits | undefined,
+  second: EmbedRuleHits
+): EmbedRuleHits {
+  const merge = (a: EmbedRuleHits["added"], b: EmbedRuleHits["added"]) => {
+    const seen = new Set(a.map((hit) => hit.path));
+    return [...a, ...b.filter((hit) => !seen.has(hit.path))];
+  };
+  return {
+    added: merge(first?.added ?? [], second.added),
+    removed: merge(first?.removed ?? [], second.removed),
+  };
+}
 
 /**
  * statSync that returns null instead of throwing on EPERM/EACCES/ENOENT.
@@ -540,6 +631,86 @@ export function isPrunableModuleFile(mod: string): boolean {
   return false;
 }
 
+/**
+ * Compiles a path glob to an anchored RegExp: `**` spans directories, `*`
+ * and `?` stay within one segment, `{a,b}` alternates. Hand-rolled because
+ * generation runs under whatever Node drives `next build`, and
+ * path.matchesGlob isn't available on all of the supported versions.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let re = "";
+  let depth = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*") {
+      if (glob[i + 1] === "*") {
+        i++;
+        if (glob[i + 1] === "/") {
+          i++;
+          re += "(?:.*/)?";
+        } else {
+          re += ".*";
+        }
+      } else {
+        re += "[^/]*";
+      }
+    } else if (c === "?") re += "[^/]";
+    else if (c === "{") {
+      depth++;
+      re += "(?:";
+    } else if (c === "}" && depth > 0) {
+      depth--;
+      re += ")";
+    } else if (c === "," && depth > 0) re += "|";
+    else re += c.replace(/[.+^$()|[\]\\]/g, "\\$&");
+  }
+  return new RegExp(`^${re}$`);
+}
+
+/**
+ * Matches module paths against one side of the embed rules, returning
+ * the rule that hit (as the build report names it) or null.
+ */
+export function embedRuleMatcher(
+  kind: "include" | "exclude",
+  globs: string[] = []
+): (mod: string) => string | null {
+  const rules = globs.map((glob) => ({
+    glob,
+    re: globToRegExp(glob),
+  }));
+  return (mod) => {
+    const hit = rules.find((r) => r.re.test(mod));
+    return hit ? `embed.${kind} ${JSON.stringify(hit.glob)}` : null;
+  };
+}
+
+/**
+ * The canonical module path (relative to node_modules, e.g.
+ * "sharp/lib/index.js") of a file anywhere in a node_modules tree,
+ * .pnpm/.bun store copies included; null outside node_modules.
+ */
+export function nodeModulesPath(path: string): string | null {
+  const normalized = path.replace(/\\/g, "/");
+  const idx = normalized.lastIndexOf("node_modules/");
+  if (idx === -1) return null;
+  const mod = normalized.slice(idx + "node_modules/".length);
+  return mod.startsWith(".") ? null : mod;
+}
+
+/**
+ * The package an include glob names up front ("@prisma/engines/**" →
+ * "@prisma/engines"), which is where untraced files can be looked for;
+ * null when the glob starts with a wildcard.
+ */
+export function includeRulePackage(glob: string): string | null {
+  const segments = glob.split("/");
+  const count = glob.startsWith("@") ? 2 : 1;
+  if (segments.length <= count) return null;
+  const pkg = segments.slice(0, count);
+  return pkg.some((seg) => /[*?{]/.test(seg)) ? null : pkg.join("/");
+}
+
 /** Minimum raw size before gzip-embedding is worth the extraction-time
  *  gunzip; below this the binary savings are noise. */
 const GZ_EMBED_MIN_BYTES = 4096;
@@ -565,9 +736,186 @@ export function shouldCompressEmbeddedAsset(
   return gzSize < rawSize * 0.9;
 }
 
+/** Below this the memory tiers serve raw bytes (the runtime's
+ *  GZIP_MIN_BYTES — compression middleware's threshold). */
+const PRECOMPRESS_MIN_BYTES = 1024;
+
+/** Tier-1 files whose content type the runtime compresses (its
+ *  COMPRESSIBLE: text, JS, JSON, XML, SVG), by extension. Any it
+ *  misses are compressed at boot (loadVariants), not served raw. */
+const PRECOMPRESSIBLE_EXT =
+  /\.(m?js|cjs|css|html?|json|map|xml|svg|txt|csv|tsv|md|vtt|ics|ya?ml)$/i;
+
+/**
+ * Compressed variants of one served body, at the maximum levels — brotli
+ * quality 11, zstd level 19 where this Node has it, gzip at zlib's
+ * default. The build can afford them; the runtime's boot-time fallback
+ * (precompress in src/runtime/serve.js) uses fast levels instead. A
+ * variant that isn't smaller than the raw bytes is left out; null when
+ * the body is too small to compress at all.
+ */
+export function precompressVariants(
+  raw: Buffer
+): Record<string, Buffer> | null {
+  if (raw.length < PRECOMPRESS_MIN_BYTES) return null;
+  const variants: Record<string, Buffer> = {};
+  const candidates: Array<[string, () => Buffer]> = [
+    [
+      "br",
+      () =>
+        zlib.brotliCompressSync(raw, {
+          params: { [zlib.constants.BROTLI_PARAM_QUALITY]: 11 },
+        }),
+    ],
+    ["gzip", () => zlib.gzipSync(raw)],
+  ];
+  // node:zlib gained zstd in Node 22.15; older build hosts skip it and
+  // the runtime just doesn't offer zstd for these bodies.
+  const zstd = (
+    zlib as { zstdCompressSync?: (buf: Buffer, opts: object) => Buffer }
+  ).zstdCompressSync;
+  if (zstd) {
+    const levelParam =
+      (zlib.constants as Record<string, number>).ZSTD_c_compressionLevel ?? 100;
+    candidates.splice(1, 0, [
+      "zstd",
+      () => zstd(raw, { params: { [levelParam]: 19 } }),
+    ]);
+  }
+  for (const [coding, compress] of candidates) {
+    const out = compress();
+    if (out.length < raw.length) variants[coding] = out;
+  }
+  return variants;
+}
+
+/**
+ * The os/cpu/libc a binary runs on — the vocabulary of package.json's
+ * `os` / `cpu` / `libc` fields, which is how optional native packages
+ * (`@img/sharp-linux-arm64`, `@next/swc-linux-x64-musl`, ...) declare
+ * the one platform they install on.
+ */
+export interface Platform {
+  os: string;
+  cpu: string;
+  libc: "glibc" | "musl" | null;
+}
+
+function hostPlatform(): Platform {
+  const report = process.report?.getReport() as
+    | { header?: { glibcVersionRuntime?: string } }
+    | undefined;
+  const libc =
+    process.platform !== "linux"
+      ? null
+      : report?.header?.glibcVersionRuntime
+        ? "glibc"
+        : "musl";
+  return { os: process.platform, cpu: process.arch, libc };
+}
+
+/**
+ * Platform of a Bun compile target (`bun-linux-arm64-musl`,
+ * `bun-windows-x64-baseline`, ...); no target means the build host.
+ */
+export function targetPlatform(target?: string): Platform {
+  if (!target) return hostPlatform();
+  const [, os = "", cpu = "", ...rest] = target.split("-");
+  const nodeOs = os === "windows" ? "win32" : os;
+  return {
+    os: nodeOs,
+    cpu,
+    libc: nodeOs === "linux" ? (rest.includes("musl") ? "musl" : "glibc") : null,
+  };
+}
+
+/** The platform a package installs on, when its package.json pins one. */
+function packagePlatform(pkgPath: string): Platform | null {
+  let pkg: { os?: unknown; cpu?: unknown; libc?: unknown };
+  try {
+    pkg = JSON.parse(readFileSync(join(pkgPath, "package.json"), "utf-8"));
+  } catch {
+    return null;
+  }
+  const only = (v: unknown) =>
+    Array.isArray(v) && v.length === 1 && typeof v[0] === "string"
+      ? (v[0] as string)
+      : null;
+  const os = only(pkg.os);
+  const cpu = only(pkg.cpu);
+  if (!os || !cpu) return null;
+  const libc = only(pkg.libc);
+  return { os, cpu, libc: libc === "glibc" || libc === "musl" ? libc : null };
+}
+
+function platformMatches(pkg: Platform, target: Platform): boolean {
+  return (
+    pkg.os === target.os &&
+    pkg.cpu === target.cpu &&
+    (!pkg.libc || !target.libc || pkg.libc === target.libc)
+  );
+}
+
+const PLATFORM_TOKEN =
+  /(darwin|linux|linuxmusl|win32|freebsd)-(x64|arm64|ia32|arm|s390x|ppc64|riscv64)(?:-(gnu|musl|msvc|gnueabihf))?/;
+
+/**
+ * Candidate names of a platform package's sibling for another platform,
+ * most likely first, following the two naming schemes in use: napi-rs
+ * (`foo-linux-x64-gnu`, `foo-linux-arm64-musl`, `foo-win32-x64-msvc`)
+ * and sharp's (`sharp-linux-x64`, `sharp-linuxmusl-arm64`). A source
+ * name without an abi suffix or libc-folded os (`foo-darwin-arm64`)
+ * could be either, so both are offered. Empty when the name carries no
+ * recognizable platform token.
+ */
+export function platformPackageNames(name: string, target: Platform): string[] {
+  const m = name.match(PLATFORM_TOKEN);
+  if (!m) return [];
+  const abi =
+    target.os === "linux"
+      ? target.cpu === "arm" ? "gnueabihf" : target.libc === "musl" ? "musl" : "gnu"
+      : target.os === "win32" ? "msvc" : null;
+  const napi = `${target.os}-${target.cpu}${abi ? `-${abi}` : ""}`;
+  const sharpOs =
+    target.os === "linux" && target.libc === "musl" ? "linuxmusl" : target.os;
+  const sharp = `${sharpOs}-${target.cpu}`;
+  const tokens = m[3] ? [napi] : m[1] === "linuxmusl" ? [sharp] : [sharp, napi];
+  return [...new Set(tokens)].map((t) => name.replace(PLATFORM_TOKEN, t));
+}
+
+/**
+ * Where an installed copy of `name` lives outside the traced tree: the
+ * project's node_modules and its ancestors, including the hoisted
+ * .pnpm/.bun store links. Cross-platform variants are never traced
+ * (nothing on the build host requires them), so they're found here.
+ */
+export function findInstalledPackage(
+  projectDir: string,
+  name: string
+): string | null {
+  let dir = projectDir;
+  for (;;) {
+    for (const base of ["node_modules", "node_modules/.pnpm/node_modules", "node_modules/.bun/node_modules"]) {
+      const candidate = join(dir, base, name);
+      if (existsSync(join(candidate, "package.json"))) return candidate;
+    }
+    const parent = join(dir, "..");
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
 function collectExternalModules(
-  standaloneDir: string
-): Array<{ mod: string; src: string }> {
+  standaloneDir: string,
+  embed: EmbedRules = {},
+  projectDir: string = standaloneDir,
+  targets: Array<string | undefined> = [undefined]
+): {
+  modules: Array<{ mod: string; src: string; targets?: string[] }>;
+  /** Files left out or forced in, with the reason — for the build
+   *  report. */
+  ruleHits: EmbedRuleHits;
+} {
   // Collect all package directories, including those in .bun/.pnpm stores
   // and nested node_modules anywhere in the standalone tree (monorepo
   // layouts produce both `standalone/node_modules/` and
@@ -635,31 +983,140 @@ function collectExternalModules(
     }
   }
   walkForNodeModules(standaloneDir);
-  if (pkgRoots.size === 0) return [];
+  if (pkgRoots.size === 0) {
+    return { modules: [], ruleHits: { added: [], removed: [] } };
+  }
+
+  // Platform packages (package.json pins os/cpu) are embedded per target:
+  // each target gets the variant matching it — looked up in the project's
+  // node_modules when only the host's was traced — and never the host's,
+  // whose binding would crash on load.
+  const platforms = targets.map((t) => ({
+    key: t ?? "",
+    platform: targetPlatform(t),
+  }));
+  const tracedPlatformPkgs = new Map<
+    string,
+    { paths: Set<string>; own: Platform }
+  >();
+  for (const [name, paths] of pkgRoots) {
+    const own = packagePlatform([...paths][0]);
+    if (!own) continue;
+    pkgRoots.delete(name);
+    tracedPlatformPkgs.set(name, { paths, own });
+  }
+  const platformRoots = new Map<string, Iterable<string>>();
+  const wantedBy = new Map<string, string[]>();
+  const missing: string[] = [];
+  for (const [name, { own }] of tracedPlatformPkgs) {
+    for (const { key, platform } of platforms) {
+      const candidates = platformMatches(own, platform)
+        ? [name]
+        : platformPackageNames(name, platform);
+      if (candidates.length === 0) {
+        console.warn(
+          `next-bun-compile: dropping ${name} (${own.os}-${own.cpu}) — can't derive its ${key || "host"} variant`
+        );
+        continue;
+      }
+      let wanted: string | null = null;
+      for (const candidate of candidates) {
+        const installed =
+          tracedPlatformPkgs.get(candidate)?.paths ??
+          findInstalledPackage(projectDir, candidate);
+        if (!installed) continue;
+        wanted = candidate;
+        platformRoots.set(
+          candidate,
+          typeof installed === "string" ? [installed] : installed
+        );
+        break;
+      }
+      if (!wanted) {
+        missing.push(`${candidates.join(" or ")} (${key || "host"})`);
+        continue;
+      }
+      const keys = wantedBy.get(wanted) ?? [];
+      if (!keys.includes(key)) keys.push(key);
+      wantedBy.set(wanted, keys);
+    }
+  }
+  if (missing.length > 0) {
+    throw new Error(
+      `next-bun-compile: native packages for the compile target are not installed: ${[...new Set(missing)].join(", ")}. Install the target's optional dependencies next to the host's (e.g. \`npm install --os=linux --cpu=arm64 --libc=musl\`, or pnpm's supportedArchitectures) and rebuild.`
+    );
+  }
 
-  const results: Array<{ mod: string; src: string }> = [];
+  const results: Array<{ mod: string; src: string; targets?: string[] }> = [];
+  const ruleHits: EmbedRuleHits = { added: [], removed: [] };
   const seenMods = new Set<string>();
+  const includeRule = embedRuleMatcher("include", embed.include);
+  const excludeRule = embedRuleMatcher("exclude", embed.exclude);
   let pruned = 0;
-  for (const [name, paths] of pkgRoots) {
+  let dropped = 0;
+  const hostBuilt = new Set<string>();
+  function addPackage(name: string, paths: Iterable<string>, only?: string[]) {
     for (const pkgPath of paths) {
       for (const f of walkDir(pkgPath)) {
         const mod = `${name}/${f.relativePath.replace(/\\/g, "/")}`;
         if (seenMods.has(mod)) continue;
         seenMods.add(mod);
-        if (isPrunableModuleFile(mod)) {
-          pruned++;
-          continue;
+        const excluded = excludeRule(mod);
+        const prunable = !excluded && isPrunableModuleFile(mod);
+        if (excluded || prunable) {
+          const included = includeRule(mod);
+          if (included) {
+            ruleHits.added.push({ path: mod, reason: included });
+          } else if (excluded) {
+            dropped++;
+            ruleHits.removed.push({ path: mod, reason: excluded });
+            continue;
+          } else {
+            pruned++;
+            ruleHits.removed.push({ path: mod, reason: "build-time only" });
+            continue;
+          }
         }
-        results.push({ mod, src: f.absolutePath });
+        if (!only && mod.endsWith(".node")) hostBuilt.add(name);
+        results.push({ mod, src: f.absolutePath, ...(only && { targets: only }) });
       }
     }
   }
+  for (const [name, paths] of pkgRoots) addPackage(name, paths);
+  for (const [name, paths] of platformRoots) {
+    addPackage(name, paths, wantedBy.get(name));
+  }
+  for (const [name, { paths, own }] of tracedPlatformPkgs) {
+    if (platformRoots.has(name)) continue;
+    for (const pkgPath of paths) {
+      for (const f of walkDir(pkgPath)) {
+        ruleHits.removed.push({
+          path: `${name}/${f.relativePath.replace(/\\/g, "/")}`,
+          reason: `platform ${own.os}-${own.cpu} not targeted`,
+        });
+      }
+    }
+  }
+  // Addons compiled on install (node-gyp) have no per-platform package
+  // to swap in; all we can do is say so.
+  const host = hostPlatform();
+  const cross = platforms.filter((t) => !platformMatches(t.platform, host));
+  if (cross.length > 0 && hostBuilt.size > 0) {
+    console.warn(
+      `next-bun-compile: ${[...hostBuilt].join(", ")} embed .node addons built for this host — they won't load on ${cross.map((t) => t.key).join(", ")}`
+    );
+  }
   if (pruned > 0) {
     console.log(
       `next-bun-compile: pruned ${pruned} build-time-only module files (sourcemaps, dev builds, webpack)`
     );
   }
-  return results;
+  if (dropped > 0) {
+    console.log(
+      `next-bun-compile: excluded ${dropped} module files by embed.exclude`
+    );
+  }
+  return { modules: results, ruleHits };
 }
 
 /**
@@ -973,7 +1430,11 @@ function computeStaticTiers(args: {
 }
 
 export function generateEntryPoint(options: GenerateOptions): string {
-  const { standaloneDir, serverDir, distDir, projectDir } = options;
+  const { standaloneDir, serverDir, distDir, projectDir, embed } = options;
+  const variants: Array<string | undefined> = options.targets?.length
+    ? options.targets
+    : [undefined];
+  const tiers = { static: true, public: true, pages: true, ...options.tiers };
 
   generateStubs(standaloneDir);
   patchRequireHook(standaloneDir);
@@ -1007,8 +1468,8 @@ export function generateEntryPoint(options: GenerateOptions): string {
   // Build Adapters API stabilizes, AdapterOutputs can replace the manifest
   // reads — only this function's data source changes, not its output.)
   const {
-    tier1,
-    staticPages,
+    tier1: tier1Candidates,
+    staticPages: pageCandidates,
     disabled: tiersDisabled,
     customCacheHandler,
     shellGuards,
@@ -1018,6 +1479,8 @@ export function generateEntryPoint(options: GenerateOptions): string {
     publicFiles,
     assetPrefix,
   });
+  const tier1 = tier1Candidates.filter((t) => tiers[t.kind]);
+  const staticPages = tiers.pages ? pageCandidates : [];
   if (tiersDisabled) {
     console.log(
       `next-bun-compile: memory tiers disabled (${tiersDisabled}) — all requests go through Next`
@@ -1037,19 +1500,25 @@ export function generateEntryPoint(options: GenerateOptions): string {
 
   // The runtime's invalidation hook is in-process. A custom cacheHandler
   // is typically a shared store (Redis) where an invalidation issued on
-  // one pod must take effect on all — frozen in-memory copies on other
-  // pods would never hear about it. Keep prerendered pages with Next,
-  // which reads through the handler and honors shared invalidation.
+  // one pod must take effect on all, so the pages are still embedded but
+  // only served from memory once an invalidation bus is configured at
+  // runtime; otherwise they stay with Next, which reads through the
+  // handler and honors shared invalidation.
   const hasCustomCacheHandler = customCacheHandler;
   if (staticPages.length > 0 && hasCustomCacheHandler) {
     console.log(
-      "next-bun-compile: custom cacheHandler detected — prerendered pages stay with Next (Tier 2 off)"
+      "next-bun-compile: custom cacheHandler detected — Tier 2 needs NBC_INVALIDATION_REDIS or NBC_INVALIDATION_WEBHOOK at runtime"
     );
-    staticPages.length = 0;
   }
   const turbopackAliases = findTurbopackAliases(standaloneNextDir);
   const aliasNames = new Set(turbopackAliases.map((a) => a.alias));
-  const runtimeFiles = walkDir(standaloneNextDir)
+  const runtimeFiles: Array<{
+    absolutePath: string;
+    relativePath: string;
+    urlPath: string;
+    /** Only embedded for these targets (platform-specific packages). */
+    targets?: string[];
+  }> = walkDir(standaloneNextDir)
     .filter((f) => {
       // Skip files reached through alias symlinks — the canonical files
       // are extracted by collectExternalModules and the hook redirects
@@ -1066,9 +1535,14 @@ export function generateEntryPoint(options: GenerateOptions): string {
   // Copy external modules into .next/__external/ so they get embedded as
   // regular file assets (JS files in node_modules/ conflict with bun's bundler).
   // At runtime these are extracted to .next/node_modules/ for SSR chunk resolution.
-  const externalModules = collectExternalModules(standaloneDir);
+  const { modules: externalModules, ruleHits } = collectExternalModules(
+    standaloneDir,
+    embed,
+    projectDir,
+    variants
+  );
   const externalDir = join(serverDir, ".next/__external");
-  for (const { mod, src } of externalModules) {
+  for (const { mod, src, targets } of externalModules) {
     if (!existsSync(src)) continue;
     const dest = join(externalDir, mod);
     mkdirSync(join(dest, ".."), { recursive: true });
@@ -1077,6 +1551,7 @@ export function generateEntryPoint(options: GenerateOptions): string {
       absolutePath: dest,
       relativePath: `__external/${mod}`,
       urlPath: `__runtime/.next/node_modules/${mod.replace(/\\/g, "/")}`,
+      targets,
     });
   }
   if (externalModules.length > 0) {
@@ -1102,7 +1577,7 @@ export function generateEntryPoint(options: GenerateOptions): string {
     canonicalResolutions
   );
 
-  const assetsToEmbed = assetPrefix
+  const assetsToEmbed: Array<(typeof runtimeFiles)[number]> = assetPrefix
     ? [...publicFiles, ...runtimeFiles]
     : [...staticFiles, ...publicFiles, ...runtimeFiles];
 
@@ -1116,6 +1591,50 @@ export function generateEntryPoint(options: GenerateOptions): string {
     `next-bun-compile: Embedding ${assetsToEmbed.length} assets (${staticFiles.length} static + ${publicFiles.length} public + ${runtimeFiles.length} runtime)`
   );
 
+  // Compressed variants of every body the memory tiers serve compressed
+  // — compressible Tier-1 assets and Tier-2 page HTML/RSC — produced
+  // once here rather than on every boot (brotli at quality 11 is far
+  // too slow for a CPU-throttled container's startup). Read before the
+  // gzip-embedding below swaps Tier-2 seeds for their staged .gz copies.
+  const precompressDir = join(serverDir, ".next/__precompressed");
+  const precompressKeys = new Set<string>([
+    ...tier1
+      .filter((t) => PRECOMPRESSIBLE_EXT.test(t.key))
+      .map((t) => t.key),
+    ...staticPages.flatMap((p) => (p.rscKey ? [p.htmlKey, p.rscKey] : [p.htmlKey])),
+  ]);
+  const precompressed: Array<[string, Record<string, string>]> = [];
+  let precompressedBytes = 0;
+  // Raw sizes for the build report, taken before gzip staging swaps
+  // absolutePath for the compressed copy.
+  const rawBytes = new Map(
+    assetsToEmbed.map((a) => [a.urlPath, statSync(a.absolutePath).size])
+  );
+  const variantBytes = new Map<string, number>();
+  for (const asset of assetsToEmbed) {
+    if (!precompressKeys.has(asset.urlPath)) continue;
+    const variants = precompressVariants(readFileSync(asset.absolutePath));
+    if (!variants || Object.keys(variants).length === 0) continue;
+    const files: Record<string, string> = {};
+    for (const [coding, bytes] of Object.entries(variants)) {
+      const staged = join(precompressDir, `${precompressed.length}.${coding}`);
+      mkdirSync(precompressDir, { recursive: true });
+      writeFileSync(staged, bytes);
+      files[coding] = staged;
+      precompressedBytes += bytes.length;
+      variantBytes.set(
+        asset.urlPath,
+        (variantBytes.get(asset.urlPath) ?? 0) + bytes.length
+      );
+    }
+    precompressed.push([asset.urlPath, files]);
+  }
+  if (precompressed.length > 0) {
+    console.log(
+      `next-bun-compile: precompressed ${precompressed.length} served assets (+${(precompressedBytes / 1024 / 1024).toFixed(1)} MB embedded)`
+    );
+  }
+
   // Gzip the extraction-bound __runtime/ tree before embedding. The
   // runtime gunzips each marked asset once, during extraction (and for
   // the few Tier-2 seeds read back into memory at boot).
@@ -1143,37 +1662,39 @@ export function generateEntryPoint(options: GenerateOptions): string {
     );
   }
 
-  // Content hash of everything embedded (post chunk-rewrite). The runtime
-  // stamps this (plus the resolved baseDir) into a manifest file after a
-  // complete extraction; a boot that finds a matching manifest skips
-  // extraction with a single file read.
-  const hasher = createHash("sha256");
-  for (const asset of assetsToEmbed) {
-    hasher.update(asset.urlPath);
-    hasher.update("\0");
-    hasher.update(readFileSync(asset.absolutePath));
-  }
-  const buildHash = hasher.digest("hex");
-
-  // Generate assets.generated.js
-  const imports: string[] = [];
-  const mapEntries: string[] = [];
-
-  for (const [i, asset] of assetsToEmbed.entries()) {
-    const varName = toVarName(asset.urlPath, i);
-    const importPath = relative(serverDir, asset.absolutePath).replace(
-      /\\/g,
-      "/"
-    );
-    imports.push(
-      `import ${varName} from "./${importPath}" with { type: "file" };`
-    );
-    mapEntries.push(`  ["${asset.urlPath}", ${varName}],`);
-  }
-
-  writeFileSync(
-    join(serverDir, "assets.generated.js"),
-    `${imports.join("\n")}\nexport const assetMap = new Map([\n${mapEntries.join("\n")}\n]);\nexport const gzippedAssets = new Set(${JSON.stringify(gzippedAssets)});\n`
+  // The per-file breakdown behind the aggregate counts logged above.
+  const report = buildReport({
+    files: assetsToEmbed.map((a): ReportFile => {
+      const pkg = a.urlPath.match(
+        /^__runtime\/\.next\/node_modules\/((?:@[^/]+\/)?[^/]+)/
+      )?.[1];
+      return {
+        path: a.urlPath,
+        category: a.urlPath.startsWith("/_next/static/")
+          ? "static"
+          : pkg
+            ? "package"
+            : a.urlPath.startsWith("__runtime/")
+              ? "runtime"
+              : "public",
+        ...(pkg && { package: pkg }),
+        rawBytes: rawBytes.get(a.urlPath) ?? 0,
+        embeddedBytes:
+          statSync(a.absolutePath).size + (variantBytes.get(a.urlPath) ?? 0),
+        // A host build's only key is "" — no target to name.
+        ...(a.targets && options.targets?.length && { targets: a.targets }),
+      };
+    }),
+    ...mergeRuleHits(options.ruleHits, ruleHits),
+    tiers: {
+      static: tier1.filter((t) => t.kind === "static").map((t) => t.urlPath),
+      public: tier1.filter((t) => t.kind === "public").map((t) => t.urlPath),
+      pages: staticPages.map((p) => p.path),
+    },
+  });
+  writeBuildReport(distDir, report);
+  console.log(
+    `next-bun-compile: embedded ${formatBytes(report.totals.embeddedBytes)} — breakdown in .next/nbc-report.html`
   );
 
   // Copy the Bun.serve runtime next to the entry so the bundler picks it up.
@@ -1185,23 +1706,37 @@ export function generateEntryPoint(options: GenerateOptions): string {
     join(serverDir, "nbc-serve.js")
   );
 
+  // Optional request hooks (see ServerHooks) and WebSocket handlers (see
+  // WebSocketModule): bundled into the binary by importing them from the
+  // entry, so they can be TypeScript and use the project's own
+  // dependencies.
+  const hooksFile = findProjectModule(projectDir, "nbc.server");
+  if (hooksFile) {
+    console.log(
+      `next-bun-compile: Running request hooks from ${basename(hooksFile)} around every tier`
+    );
+  }
+  const webSocketFile = findProjectModule(projectDir, "nbc.websocket");
+  if (webSocketFile) {
+    console.log(
+      `next-bun-compile: Serving WebSockets from ${basename(webSocketFile)}`
+    );
+  }
 
-  // Build extraction map for embedded assets
-  const assetExtractions = assetsToEmbed.map((a) => {
-    let diskPath: string;
-    if (a.urlPath.startsWith("__runtime/")) {
-      diskPath = a.urlPath.slice("__runtime/".length);
-    } else if (a.urlPath.startsWith("/_next/static/")) {
-      diskPath = ".next/static/" + a.relativePath;
-    } else {
-      diskPath = "public/" + a.relativePath;
-    }
-    return [a.urlPath, diskPath];
-  });
-
-  // Generate server-entry.js
-  const serverEntry = `import { assetMap, gzippedAssets } from "./assets.generated.js";
-const path = require("path");
+  // Last-Modified for the frozen tiers: when `next build` wrote this
+  // build's BUILD_ID.
+  const buildIdPath = join(distDir, "BUILD_ID");
+  const builtAt = existsSync(buildIdPath)
+    ? statSync(buildIdPath).mtime.toISOString()
+    : null;
+
+  // Generate server-entry.js — rendered per target below.
+  const renderEntry = (
+    assetsModule: string,
+    assetExtractions: string[][],
+    buildHash: string
+  ) => `import { assetMap, gzippedAssets, precompressed } from "./${assetsModule}";
+${hooksFile ? `import * as __nbcHooks from ${JSON.stringify(hooksFile)};\n` : ""}${webSocketFile ? `import * as __nbcWebSocket from ${JSON.stringify(webSocketFile)};\n` : ""}const path = require("path");
 const fs = require("fs");
 const Module = require("module");
 
@@ -1462,11 +1997,17 @@ if (process.argv.includes("--extract")) {
     .catch((err) => { console.error(err); process.exit(1); });
 } else {
 
-extractAssets().then(() => {
-  const { start } = require("./nbc-serve.js");
+// NBC_WORKERS=N: this process extracts, then forks N workers sharing the
+// port (see nbc-serve.js). Workers find the tree already in place.
+const { start, clusterSize, startPrimary } = require("./nbc-serve.js");
+const workers = clusterSize();
+const cluster = require("cluster");
+(cluster.isWorker ? Promise.resolve() : extractAssets()).then(() => {
+  if (workers > 0) return startPrimary(workers);
   return start({
     assetMap,
     gzippedAssets,
+    precompressed,
     nextConfig,
     port: currentPort,
     hostname,
@@ -1475,17 +2016,95 @@ extractAssets().then(() => {
     staticPages: __NBC_STATIC_PAGES,
     shellGuards: __NBC_SHELL_GUARDS,
     baseDir,
-    // Revalidation events are observed on the default filesystem cache
-    // handler; with a custom handler they never fire, so response
-    // caching would serve stale pages.
-    enableL1: ${JSON.stringify(!hasCustomCacheHandler)},
+    // A shared custom handler needs an invalidation bus (configured at
+    // runtime) before the memory page tiers can be trusted with it.
+    customCacheHandler: ${JSON.stringify(hasCustomCacheHandler)},
+    builtAt: ${JSON.stringify(builtAt)},
+    hooks: ${hooksFile ? "__nbcHooks" : "undefined"},
+    webSocket: ${webSocketFile ? "__nbcWebSocket" : "undefined"},
   });
 }).catch((err) => { console.error(err); process.exit(1); });
 
 }
 `;
 
-  writeFileSync(join(serverDir, "server-entry.js"), serverEntry);
+  // Everything above is shared; each target gets its own assets module
+  // and entry, differing only in which platform packages they embed.
+  for (const target of variants) {
+    const key = target ?? "";
+    const perTarget = variants.length > 1 && target;
+    const entryFile = perTarget ? targetEntryFile(target) : "server-entry.js";
+    const assetsModule = entryFile
+      .replace("server-entry", "assets")
+      .replace(/\.js$/, ".generated.js");
+    const embedded = [...assetsToEmbed.entries()].filter(
+      ([, a]) => !a.targets || a.targets.includes(key)
+    );
+
+    // Content hash of everything embedded (post chunk-rewrite). The runtime
+    // stamps this (plus the resolved baseDir) into a manifest file after a
+    // complete extraction; a boot that finds a matching manifest skips
+    // extraction with a single file read.
+    const hasher = createHash("sha256");
+    for (const [, asset] of embedded) {
+      hasher.update(asset.urlPath);
+      hasher.update("\0");
+      hasher.update(readFileSync(asset.absolutePath));
+    }
+    const buildHash = hasher.digest("hex");
+
+    // Generate the assets module
+    const imports: string[] = [];
+    const mapEntries: string[] = [];
+
+    for (const [i, asset] of embedded) {
+      const varName = toVarName(asset.urlPath, i);
+      const importPath = relative(serverDir, asset.absolutePath).replace(
+        /\\/g,
+        "/"
+      );
+      imports.push(
+        `import ${varName} from "./${importPath}" with { type: "file" };`
+      );
+      mapEntries.push(`  ["${asset.urlPath}", ${varName}],`);
+    }
+    const precompressedEntries: string[] = [];
+    for (const [i, [urlPath, files]] of precompressed.entries()) {
+      const fields: string[] = [];
+      for (const [coding, file] of Object.entries(files)) {
+        const varName = `precompressed_${i}_${coding}`;
+        const importPath = relative(serverDir, file).replace(/\\/g, "/");
+        imports.push(
+          `import ${varName} from "./${importPath}" with { type: "file" };`
+        );
+        fields.push(`${coding}: ${varName}`);
+      }
+      precompressedEntries.push(`  ["${urlPath}", { ${fields.join(", ")} }],`);
+    }
+
+    writeFileSync(
+      join(serverDir, assetsModule),
+      `${imports.join("\n")}\nexport const assetMap = new Map([\n${mapEntries.join("\n")}\n]);\nexport const gzippedAssets = new Set(${JSON.stringify(gzippedAssets)});\nexport const precompressed = new Map([\n${precompressedEntries.join("\n")}\n]);\n`
+    );
+
+    // Build extraction map for embedded assets
+    const assetExtractions = embedded.map(([, a]) => {
+      let diskPath: string;
+      if (a.urlPath.startsWith("__runtime/")) {
+        diskPath = a.urlPath.slice("__runtime/".length);
+      } else if (a.urlPath.startsWith("/_next/static/")) {
+        diskPath = ".next/static/" + a.relativePath;
+      } else {
+        diskPath = "public/" + a.relativePath;
+      }
+      return [a.urlPath, diskPath];
+    });
+
+    writeFileSync(
+      join(serverDir, entryFile),
+      renderEntry(assetsModule, assetExtractions, buildHash)
+    );
+  }
 
   return serverDir;
 }
@@ -0,0 +1,31 @@
+/**
+ * Request hooks an app can supply as `nbc.server.ts` (or .mts/.js/.mjs)
+ * in its project root. The build bundles the file into the binary, and
+ * the runtime calls its exports around every memory tier and Next itself
+ * — code that would otherwise need middleware, whose coverage takes a
+ * route off the memory tiers.
+ *
+ *   // nbc.server.ts
+ *   import type { ServerHooks } from "next-bun-compile";
+ *   export const onResponse: ServerHooks["onResponse"] = (req, res, tier) => {
+ *     res.headers.set("x-served-by", tier);
+ *   };
+ */
+
+/** What answered a request: Tier 1 (`static`, `public`), Tier 2
+ *  (`page`), the L1 cache, the PPR shell endpoint, or Next. */
+export type ServedTier = "static" | "public" | "page" | "l1" | "shell" | "next";
+
+export interface ServerHooks {
+  /** Runs before any tier (after rate limiting), and before a WebSocket
+   *  upgrade. Return a Response to answer with it; nothing else runs
+   *  for the request. */
+  onRequest?(req: Request): Response | void | Promise<Response | void>;
+  /** Runs once a tier has answered, before the response is sent. Mutate
+   *  `res.headers`, or return a Response to send instead. */
+  onResponse?(
+    req: Request,
+    res: Response,
+    tier: ServedTier
+  ): Response | void | Promise<Response | void>;
+}
@@ -1,8 +1,13 @@
 export { generateEntryPoint } from "./generate.js";
 export { compile } from "./compile.js";
 export { runBuild } from "./build.js";
+export type { BuildOptions } from "./build.js";
+export type { EmbedRules, TierOptions } from "./generate.js";
+export type { BuildReport, ReportCategory } from "./report.js";
+export type { ServerHooks, ServedTier } from "./hooks.js";
 // Default export so `adapterPath: "next-bun-compile"` works — Next loads
 // the module at adapterPath and silently skips the adapter when the
 // default export has no onBuildComplete, so the bare specifier must be
 // valid.
-export { default as adapter, default } from "./adapter.js";
+export { default as adapter, default, createAdapter } from "./adapter.js";
+export type { AdapterOptions } from "./adapter.js";
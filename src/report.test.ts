@@ -0,0 +1,71 @@
+import { describe, test, expect } from "bun:test";
+import { buildReport, parseBytes, renderReportHtml, squarify } from "./report.js";
+
+describe("parseBytes", () => {
+  const cases: Array<[string, number]> = [
+    ["1048576", 1048576],
+    ["120mb", 120 * 1024 ** 2],
+    ["1.5 GB", 1.5 * 1024 ** 3],
+    ["900k", 900 * 1024],
+    ["64MiB", 64 * 1024 ** 2],
+    ["12 b", 12],
+  ];
+  for (const [input, want] of cases) {
+    test(`${input} → ${want}`, () => expect(parseBytes(input)).toBe(want));
+  }
+  test("rejects garbage", () => {
+    expect(parseBytes("big")).toBeNaN();
+    expect(parseBytes("10 tb")).toBeNaN();
+  });
+});
+
+describe("squarify", () => {
+  test("tiles the rect with areas proportional to the weights", () => {
+    const rect = { x: 0, y: 0, w: 600, h: 400 };
+    const weights = [60, 25, 10, 3, 2];
+    const rects = squarify(weights, rect);
+    expect(rects.length).toBe(weights.length);
+    for (const [i, r] of rects.entries()) {
+      expect(r.w * r.h).toBeCloseTo((weights[i] / 100) * 600 * 400, 3);
+      expect(r.x).toBeGreaterThanOrEqual(0);
+      expect(r.y).toBeGreaterThanOrEqual(0);
+      expect(r.x + r.w).toBeLessThanOrEqual(600 + 1e-6);
+      expect(r.y + r.h).toBeLessThanOrEqual(400 + 1e-6);
+    }
+  });
+
+  test("zero total lays out nothing", () => {
+    const rects = squarify([0, 0], { x: 5, y: 5, w: 10, h: 10 });
+    expect(rects.every((r) => r.w === 0 && r.h === 0)).toBe(true);
+  });
+});
+
+describe("buildReport", () => {
+  const report = buildReport({
+    files: [
+      { path: "/_next/static/chunks/a.js", category: "static", rawBytes: 100, embeddedBytes: 140 },
+      { path: "__runtime/.next/node_modules/next/dist/server.js", category: "package", package: "next", rawBytes: 1000, embeddedBytes: 300 },
+      { path: "__runtime/.next/node_modules/next/package.json", category: "package", package: "next", rawBytes: 10, embeddedBytes: 10 },
+      { path: "__runtime/.next/node_modules/@img/sharp-linux-x64/sharp.node", category: "package", package: "@img/sharp-linux-x64", rawBytes: 5000, embeddedBytes: 5000 },
+    ],
+    added: [],
+    removed: [{ path: "next/dist/x.js.map", reason: "build-time only" }],
+    tiers: { static: ["/_next/static/chunks/a.js"], public: [], pages: ["/"] },
+  });
+
+  test("totals by category and by package, largest package first", () => {
+    expect(report.totals).toEqual({ files: 4, rawBytes: 6110, embeddedBytes: 5450 });
+    expect(report.categories.package.files).toBe(3);
+    expect(report.categories.public.files).toBe(0);
+    expect(report.packages.map((p) => p.name)).toEqual(["@img/sharp-linux-x64", "next"]);
+    expect(report.packages[1]).toMatchObject({ files: 2, rawBytes: 1010, embeddedBytes: 310 });
+  });
+
+  test("renders a script-free treemap page", () => {
+    const html = renderReportHtml(report);
+    expect(html).toContain("@img/sharp-linux-x64");
+    expect(html).toContain('class="cat"');
+    expect(html).not.toContain("<script");
+    expect(html).toContain("<tr><td>build-time only</td><td>0</td><td>1</td></tr>");
+  });
+});
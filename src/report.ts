@@ -0,0 +1,321 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+
+/**
+ * What went into the binary and why it's the size it is. Written by
+ * generateEntryPoint to `.next/nbc-report.json` (plus a static treemap at
+ * `.next/nbc-report.html`); runBuild adds the compiled binaries' sizes
+ * and checks them against the budget.
+ */
+export const REPORT_FILE = "nbc-report.json";
+export const REPORT_HTML_FILE = "nbc-report.html";
+
+/** `static` = /_next/static, `public` = public/, `runtime` = the
+ *  server's .next tree (chunks, manifests, seeds), `package` = an
+ *  external node_modules package extracted for SSR. */
+export type ReportCategory = "static" | "public" | "runtime" | "package";
+
+export interface ReportSizes {
+  files: number;
+  /** Bytes on disk before embedding. */
+  rawBytes: number;
+  /** Bytes the binary carries: the gzipped copy where one is embedded,
+   *  plus any precompressed variants. */
+  embeddedBytes: number;
+}
+
+export interface ReportFile {
+  path: string;
+  category: ReportCategory;
+  /** npm package name, for `package` files. */
+  package?: string;
+  rawBytes: number;
+  embeddedBytes: number;
+  /** Only embedded for these compile targets (platform packages). */
+  targets?: string[];
+}
+
+export interface BuildReport {
+  version: 1;
+  generatedAt: string;
+  totals: ReportSizes;
+  categories: Record<ReportCategory, ReportSizes>;
+  /** Largest embedded first. */
+  packages: Array<ReportSizes & { name: string }>;
+  files: ReportFile[];
+  /** node_modules files forced in by an embed.include rule. */
+  added: Array<{ path: string; reason: string }>;
+  /** node_modules files left out of the binary, and the rule or reason
+   *  that dropped each. */
+  removed: Array<{ path: string; reason: string }>;
+  /** URLs the memory tiers answer without Next. */
+  tiers: { static: string[]; public: string[]; pages: string[] };
+  /** Filled in by runBuild once the binaries exist. */
+  binaries?: Array<{ target: string | null; file: string; bytes: number }>;
+  budgetBytes?: number;
+}
+
+/** "140mb", "1.5 GB", "900k", or plain bytes. NaN when unparseable. */
+export function parseBytes(value: string): number {
+  const m = value.trim().match(/^(\d+(?:\.\d+)?)\s*([kmg]i?b?|b)?$/i);
+  if (!m) return NaN;
+  const unit = (m[2] ?? "b").toLowerCase()[0];
+  const scale = { b: 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3 }[unit] ?? 1;
+  return Math.round(Number(m[1]) * scale);
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 ** 2) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+}
+
+function emptySizes(): ReportSizes {
+  return { files: 0, rawBytes: 0, embeddedBytes: 0 };
+}
+
+function addSizes(into: ReportSizes, file: ReportFile): void {
+  into.files++;
+  into.rawBytes += file.rawBytes;
+  into.embeddedBytes += file.embeddedBytes;
+}
+
+export function buildReport(args: {
+  files: ReportFile[];
+  added: BuildReport["added"];
+  removed: BuildReport["removed"];
+  tiers: BuildReport["tiers"];
+}): BuildReport {
+  const totals = emptySizes();
+  const categories: BuildReport["categories"] = {
+    static: emptySizes(),
+    public: emptySizes(),
+    runtime: emptySizes(),
+    package: emptySizes(),
+  };
+  const packages = new Map<string, ReportSizes & { name: string }>();
+  for (const file of args.files) {
+    addSizes(totals, file);
+    addSizes(categories[file.category], file);
+    if (!file.package) continue;
+    let pkg = packages.get(file.package);
+    if (!pkg) {
+      pkg = { name: file.package, ...emptySizes() };
+      packages.set(file.package, pkg);
+    }
+    addSizes(pkg, file);
+  }
+  return {
+    version: 1,
+    generatedAt: new Date().toISOString(),
+    totals,
+    categories,
+    packages: [...packages.values()].sort(
+      (a, b) => b.embeddedBytes - a.embeddedBytes
+    ),
+    files: args.files,
+    added: args.added,
+    removed: args.removed,
+    tiers: args.tiers,
+  };
+}
+
+export function readBuildReport(distDir: string): BuildReport | null {
+  try {
+    return JSON.parse(readFileSync(join(distDir, REPORT_FILE), "utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+export function writeBuildReport(distDir: string, report: BuildReport): void {
+  writeFileSync(join(distDir, REPORT_FILE), JSON.stringify(report, null, 2));
+  writeFileSync(join(distDir, REPORT_HTML_FILE), renderReportHtml(report));
+}
+
+type Rect = { x: number; y: number; w: number; h: number };
+
+/**
+ * Squarified treemap (Bruls et al.): lays `weights` (sorted descending)
+ * out in `rect`, filling rows along the short side while that keeps the
+ * worst aspect ratio falling.
+ */
+export function squarify(weights: number[], rect: Rect): Rect[] {
+  const total = weights.reduce((a, b) => a + b, 0);
+  if (total <= 0) return weights.map(() => ({ ...rect, w: 0, h: 0 }));
+  const scale = (rect.w * rect.h) / total;
+  const areas = weights.map((w) => w * scale);
+  const out: Rect[] = [];
+  let { x, y, w, h } = rect;
+  let i = 0;
+  while (i < areas.length) {
+    const side = Math.min(w, h);
+    const worst = (row: number[]) => {
+      const sum = row.reduce((a, b) => a + b, 0);
+      const max = Math.max(...row);
+      const min = Math.min(...row);
+      return Math.max(
+        (side * side * max) / (sum * sum),
+        (sum * sum) / (side * side * min)
+      );
+    };
+    const row = [areas[i]];
+    while (
+      i + row.length < areas.length &&
+      worst([...row, areas[i + row.length]]) <= worst(row)
+    ) {
+      row.push(areas[i + row.length]);
+    }
+    const sum = row.reduce((a, b) => a + b, 0);
+    const thickness = side > 0 ? sum / side : 0;
+    let offset = 0;
+    for (const area of row) {
+      const length = thickness > 0 ? area / thickness : 0;
+      out.push(
+        w >= h
+          ? { x, y: y + offset, w: thickness, h: length }
+          : { x: x + offset, y, w: length, h: thickness }
+      );
+      offset += length;
+    }
+    if (w >= h) {
+      x += thickness;
+      w -= thickness;
+    } else {
+      y += thickness;
+      h -= thickness;
+    }
+    i += row.length;
+  }
+  return out;
+}
+
+const CATEGORY_COLORS: Record<ReportCategory, string> = {
+  static: "#4e79a7",
+  public: "#59a14f",
+  runtime: "#f28e2b",
+  package: "#b07aa1",
+};
+
+/** Rect geometry as CSS, rounded — full float precision bloats the page. */
+function box(r: Rect): string {
+  const px = (n: number) => `${Math.round(n * 10) / 10}px`;
+  return `left:${px(r.x)};top:${px(r.y)};width:${px(r.w)};height:${px(r.h)}`;
+}
+
+function escapeHtml(s: string): string {
+  return s.replace(
+    /[&<>"]/g,
+    (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" })[c]!
+  );
+}
+
+/** Treemap group for a file: its package, or its top-level directory. */
+function groupOf(file: ReportFile): string {
+  if (file.package) return file.package;
+  const parts = file.path.replace(/^__runtime\/\.next\//, "").split("/");
+  return parts.length > 1 ? parts.slice(0, -1).slice(0, 3).join("/") : "(root)";
+}
+
+/**
+ * A self-contained page: categories → packages/directories sized by
+ * embedded bytes (hover for raw vs embedded), then the package table.
+ * No scripts — it's static markup positioned at build time.
+ */
+export function renderReportHtml(report: BuildReport): string {
+  const W = 1200;
+  const H = 640;
+  const cats = (Object.keys(report.categories) as ReportCategory[])
+    .filter((c) => report.categories[c].embeddedBytes > 0)
+    .sort(
+      (a, b) =>
+        report.categories[b].embeddedBytes - report.categories[a].embeddedBytes
+    );
+  const catRects = squarify(
+    cats.map((c) => report.categories[c].embeddedBytes),
+    { x: 0, y: 0, w: W, h: H }
+  );
+  const cells: string[] = [];
+  for (const [ci, cat] of cats.entries()) {
+    const r = catRects[ci];
+    const groups = new Map<string, ReportSizes>();
+    for (const f of report.files) {
+      if (f.category !== cat) continue;
+      const g = groupOf(f);
+      const sizes = groups.get(g) ?? emptySizes();
+      addSizes(sizes, f);
+      groups.set(g, sizes);
+    }
+    const sorted = [...groups].sort(
+      (a, b) => b[1].embeddedBytes - a[1].embeddedBytes
+    );
+    const inner = squarify(
+      sorted.map(([, s]) => s.embeddedBytes),
+      { x: r.x, y: r.y + 18, w: r.w, h: Math.max(0, r.h - 18) }
+    );
+    cells.push(
+      `<div class="cat" style="${box(r)};background:${CATEGORY_COLORS[cat]}"><b>${cat} · ${formatBytes(report.categories[cat].embeddedBytes)}</b></div>`
+    );
+    for (const [gi, [name, s]] of sorted.entries()) {
+      const g = inner[gi];
+      if (g.w < 1 || g.h < 1) continue;
+      const label = g.w > 60 && g.h > 14 ? escapeHtml(name) : "";
+      cells.push(
+        `<div class="cell" style="${box(g)}" title="${escapeHtml(name)}\n${s.files} files\nraw ${formatBytes(s.rawBytes)}\nembedded ${formatBytes(s.embeddedBytes)}">${label}</div>`
+      );
+    }
+  }
+  const rows = report.packages
+    .map(
+      (p) =>
+        `<tr><td>${escapeHtml(p.name)}</td><td>${p.files}</td><td>${formatBytes(p.rawBytes)}</td><td>${formatBytes(p.embeddedBytes)}</td></tr>`
+    )
+    .join("\n");
+  // One row per rule (or built-in reason) with how many files it moved.
+  const ruleCounts = new Map<string, { added: number; removed: number }>();
+  for (const [side, hits] of [
+    ["added", report.added],
+    ["removed", report.removed],
+  ] as const) {
+    for (const { reason } of hits) {
+      const counts = ruleCounts.get(reason) ?? { added: 0, removed: 0 };
+      counts[side]++;
+      ruleCounts.set(reason, counts);
+    }
+  }
+  const ruleRows = [...ruleCounts]
+    .map(
+      ([reason, c]) =>
+        `<tr><td>${escapeHtml(reason)}</td><td>${c.added}</td><td>${c.removed}</td></tr>`
+    )
+    .join("\n");
+  const binaries = (report.binaries ?? [])
+    .map(
+      (b) =>
+        `<li>${escapeHtml(b.file)}${b.target ? ` (${escapeHtml(b.target)})` : ""}: ${formatBytes(b.bytes)}</li>`
+    )
+    .join("");
+  return `<!doctype html>
+<html><head><meta charset="utf-8"><title>next-bun-compile build report</title>
+<style>
+body{font:13px system-ui,sans-serif;margin:24px;color:#222}
+.map{position:relative;width:${W}px;height:${H}px}
+.cat,.cell{position:absolute;box-sizing:border-box;overflow:hidden}
+.cat{border:1px solid #fff;color:#fff;padding:2px 4px}
+.cell{border:1px solid rgba(255,255,255,.6);background:rgba(255,255,255,.12);color:#fff;font-size:11px;padding:2px;white-space:nowrap;text-overflow:ellipsis}
+.cell:hover{background:rgba(255,255,255,.35)}
+table{border-collapse:collapse;margin-top:16px}td,th{padding:2px 12px;text-align:right}td:first-child,th:first-child{text-align:left}
+</style></head><body>
+<h1>Embedded ${formatBytes(report.totals.embeddedBytes)} (${report.totals.files} files, ${formatBytes(report.totals.rawBytes)} raw)</h1>
+${binaries ? `<ul>${binaries}</ul>` : ""}
+<p>${report.added.length} node_modules files added and ${report.removed.length} removed by rules · tiers: ${report.tiers.static.length} static, ${report.tiers.public.length} public, ${report.tiers.pages.length} pages</p>
+<div class="map">
+${cells.join("\n")}
+</div>
+<table><tr><th>package</th><th>files</th><th>raw</th><th>embedded</th></tr>
+${rows}
+</table>
+${ruleRows ? `<table><tr><th>rule</th><th>added</th><th>removed</th></tr>\n${ruleRows}\n</table>` : ""}
+</body></html>
+`;
+}
@@ -18,6 +18,396 @@
 const path = require("path");
 const fs = require("fs");
 const { Readable, Writable } = require("stream");
+const zlib = require("zlib");
+const { AsyncLocalStorage } = require("async_hooks");
+
+/* ---------------------------------------------------------------- *
+ * Metrics (opt-in via NBC_METRICS)
+ *
+ * How much traffic each tier actually absorbs, in Prometheus text
+ * format at /_nbc/metrics. Counting is a Map increment and only
+ * happens once start() enables the registry — a binary without
+ * NBC_METRICS pays nothing, and its Tier-1 static routes stay on
+ * Bun's native static dispatch (which can't be counted).
+ *
+ * NBC_METRICS="1"/"true" → open; any other value is a bearer token
+ * the scraper must send (`Authorization: Bearer <token>`).
+ * ---------------------------------------------------------------- */
+const METRICS_PATH = "/_nbc/metrics";
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const METRIC_DEFS = {
+  nbc_tier_responses_total: [
+    "counter",
+    "Responses served from the memory tiers (static/public: Tier 1, page: Tier 2).",
+  ],
+  nbc_l1_lookups_total: ["counter", "L1 response cache lookups by result."],
+  nbc_l1_evictions_total: ["counter", "L1 entries dropped, by reason."],
+  nbc_l1_refusals_total: [
+    "counter",
+    "Responses the L1 cache declined to store, by reason.",
+  ],
+  nbc_l1_entries: ["gauge", "Entries currently held in the L1 cache."],
+  nbc_l1_bytes: ["gauge", "Bytes currently held in the L1 cache."],
+  nbc_l1_budget_bytes: ["gauge", "L1 byte budget (NBC_L1_MAX_BYTES); 0 when L1 is off."],
+  nbc_tier2_pages: ["gauge", "Prerendered pages currently served from memory."],
+  nbc_page_invalidations_total: [
+    "counter",
+    "Tier-2 pages dropped from memory because Next revalidated them.",
+  ],
+  nbc_shell_responses_total: [
+    "counter",
+    "PPR shell endpoint responses by status.",
+  ],
+  nbc_bridge_limit_responses_total: [
+    "counter",
+    "Bridge requests the runtime cut off itself, by reason (body-too-large: 413, timeout: 504).",
+  ],
+  nbc_rate_limited_total: [
+    "counter",
+    "Requests answered 429 by the rate limiter, by rule pattern.",
+  ],
+  nbc_bridge_request_duration_seconds: [
+    "histogram",
+    "Time from a request entering the fetch→node bridge until Next ends its response.",
+  ],
+};
+
+// Label values are all runtime-chosen (tier names, statuses, reasons) —
+// nothing request-derived, so nothing needs escaping.
+function labelKey(labels) {
+  if (!labels) return "";
+  return Object.entries(labels)
+    .map(([k, v]) => `${k}="${v}"`)
+    .join(",");
+}
+
+function createMetrics() {
+  const series = new Map(); // name → Map<labelKey, number | histogram>
+  const gauges = new Map(); // name → () => number
+  const slot = (name) => {
+    let m = series.get(name);
+    if (!m) series.set(name, (m = new Map()));
+    return m;
+  };
+  return {
+    enabled: false,
+    inc(name, labels, by = 1) {
+      if (!this.enabled) return;
+      const m = slot(name);
+      const k = labelKey(labels);
+      m.set(k, (m.get(k) ?? 0) + by);
+    },
+    observe(name, seconds) {
+      if (!this.enabled) return;
+      const m = slot(name);
+      let h = m.get("");
+      if (!h) {
+        h = { buckets: LATENCY_BUCKETS.map(() => 0), sum: 0, count: 0 };
+        m.set("", h);
+      }
+      for (let i = 0; i < LATENCY_BUCKETS.length; i++) {
+        if (seconds <= LATENCY_BUCKETS[i]) h.buckets[i]++;
+      }
+      h.sum += seconds;
+      h.count++;
+    },
+    gauge(name, read) {
+      gauges.set(name, read);
+    },
+    render() {
+      const out = [];
+      for (const [name, [type, help]] of Object.entries(METRIC_DEFS)) {
+        const m = series.get(name);
+        const read = gauges.get(name);
+        if (!m && !read) continue;
+        out.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+        if (read) {
+          out.push(`${name} ${read()}`);
+          continue;
+        }
+        for (const [k, v] of m) {
+          if (type !== "histogram") {
+            out.push(`${name}${k ? `{${k}}` : ""} ${v}`);
+            continue;
+          }
+          LATENCY_BUCKETS.forEach((le, i) =>
+            out.push(`${name}_bucket{le="${le}"} ${v.buckets[i]}`)
+          );
+          out.push(
+            `${name}_bucket{le="+Inf"} ${v.count}`,
+            `${name}_sum ${v.sum}`,
+            `${name}_count ${v.count}`
+          );
+        }
+      }
+      return out.join("\n") + "\n";
+    },
+  };
+}
+
+const metrics = createMetrics();
+
+function buildMetricsRoute() {
+  const raw = process.env.NBC_METRICS;
+  metrics.enabled = !!raw;
+  if (!raw) return {};
+  const token = raw === "1" || raw === "true" ? null : raw;
+  return {
+    [METRICS_PATH]: (req) => {
+      if (token && req.headers.get("authorization") !== `Bearer ${token}`) {
+        return new Response(null, { status: 401 });
+      }
+      return new Response(metrics.render(), {
+        headers: {
+          "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+          "Cache-Control": "no-store",
+        },
+      });
+    },
+  };
+}
+
+/* ---------------------------------------------------------------- *
+ * Trusted proxies (opt-in via NBC_TRUSTED_PROXIES)
+ *
+ * Behind a load balancer the peer Bun sees is the balancer. Naming it
+ * here — by CIDR, or as a count of proxy hops in front of us — lets the
+ * client address and scheme come from the forwarding headers it adds.
+ * From any other peer those headers are client-controlled, so they are
+ * dropped before Next (or a route handler) can believe them.
+ * ---------------------------------------------------------------- */
+
+// Everything a proxy might stamp; Next re-derives x-forwarded-* from the
+// socket when they're absent.
+const FORWARDING_HEADERS = [
+  "forwarded",
+  "x-forwarded-for",
+  "x-forwarded-host",
+  "x-forwarded-port",
+  "x-forwarded-proto",
+  "x-real-ip",
+];
+
+// start() sets this from NBC_TRUSTED_PROXIES; null trusts nobody's
+// headers and leaves them untouched, as before the option existed.
+let trustedProxies = null;
+
+/** An IPv4/IPv6 literal as { v6, n: BigInt }, or null. v4-mapped v6 is v4. */
+function parseIp(raw) {
+  let s = String(raw).trim();
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(s);
+  if (mapped) s = mapped[1];
+  const v4 = /^(\d+)\.(\d+)\.(\d+)\.(\d+)$/.exec(s);
+  if (v4) {
+    const octets = v4.slice(1).map(Number);
+    if (octets.some((o) => o > 255)) return null;
+    return { v6: false, n: octets.reduce((n, o) => (n << 8n) | BigInt(o), 0n) };
+  }
+  if (!s.includes(":") || !/^[0-9a-f:]+$/i.test(s)) return null;
+  const halves = s.split("::");
+  if (halves.length > 2) return null;
+  const groups = (h) => (h ? h.split(":") : []);
+  const head = groups(halves[0]);
+  const tail = halves.length === 2 ? groups(halves[1]) : [];
+  const fill = 8 - head.length - tail.length;
+  if (halves.length === 1 ? fill !== 0 : fill < 1) return null;
+  const all = [...head, ...Array(halves.length === 2 ? fill : 0).fill("0"), ...tail];
+  if (all.some((g) => !/^[0-9a-f]{1,4}$/i.test(g))) return null;
+  return { v6: true, n: all.reduce((n, g) => (n << 16n) | BigInt(parseInt(g, 16)), 0n) };
+}
+
+/**
+ * NBC_TRUSTED_PROXIES: a hop count ("1": the peer is the one proxy in
+ * front of us) or a comma/space separated list of addresses and CIDRs
+ * ("10.0.0.0/8, 2001:db8::/32"). Unset, or nothing usable, is null.
+ */
+function parseTrustedProxies(raw) {
+  if (!raw || !raw.trim()) return null;
+  if (/^\s*\d+\s*$/.test(raw)) {
+    const hops = Number(raw);
+    return hops > 0 ? { hops } : null;
+  }
+  const ranges = [];
+  for (const entry of raw.split(/[\s,]+/).filter(Boolean)) {
+    const [addr, len] = entry.split("/");
+    const ip = parseIp(addr);
+    const width = ip && ip.v6 ? 128 : 32;
+    const prefix = len === undefined ? width : Number(len);
+    if (!ip || !Number.isInteger(prefix) || prefix < 0 || prefix > width) {
+      console.warn(
+        `next-bun-compile: NBC_TRUSTED_PROXIES entry ${entry} not recognized — ignored`
+      );
+      continue;
+    }
+    const shift = BigInt(width - prefix);
+    ranges.push({ v6: ip.v6, shift, net: ip.n >> shift });
+  }
+  return ranges.length > 0 ? { ranges } : null;
+}
+
+function inTrustedRange(trust, addr) {
+  const ip = parseIp(addr);
+  if (!ip) return false;
+  return trust.ranges.some((r) => r.v6 === ip.v6 && ip.n >> r.shift === r.net);
+}
+
+/** Forwarded's elements that name a hop (for=), client first; null without the header. */
+function forwardedElements(headers) {
+  const forwarded = headers.get("forwarded");
+  return forwarded
+    ? forwarded.split(",").filter((element) => /(?:^|;)\s*for\s*=/i.test(element))
+    : null;
+}
+
+/** A Forwarded element's `name=` value, unquoted, or null. */
+function forwardedParam(element, name) {
+  const m = new RegExp(`(?:^|;)\\s*${name}\\s*=\\s*("[^"]*"|[^;,\\s]+)`, "i").exec(
+    element || ""
+  );
+  return m ? m[1].replace(/^"|"$/g, "") : null;
+}
+
+/**
+ * The hops a request claims to have passed through, client first:
+ * Forwarded for= values when that header is present, else X-Forwarded-For.
+ * Ports, brackets and quotes are stripped; obfuscated identifiers stay
+ * (and never parse as a trusted address).
+ */
+function forwardedChain(headers) {
+  const elements = forwardedElements(headers);
+  if (elements) {
+    return elements.map((element) => {
+      let v = forwardedParam(element, "for");
+      const bracketed = /^\[([^\]]+)\]/.exec(v);
+      if (bracketed) v = bracketed[1];
+      else if (/^[\d.]+:\d+$/.test(v)) v = v.slice(0, v.lastIndexOf(":"));
+      return v;
+    });
+  }
+  const xff = headers.get("x-forwarded-for");
+  return xff ? xff.split(",").map((v) => v.trim()).filter(Boolean) : [];
+}
+
+/**
+ * The proto/host/port a proxy recorded for the client's hop — the chain
+ * entry at `at` of `length`: that hop's Forwarded element, else the
+ * X-Forwarded-<name> entry as far from the right as the hop is from the
+ * end of the chain. Proxies append, so entries the client sent itself
+ * sit further left; a proxy that overwrote the header left one entry,
+ * its own.
+ */
+function forwardedValue(headers, name, length, at) {
+  const elements = forwardedElements(headers);
+  const param = elements && forwardedParam(elements[at], name);
+  if (param) return param.toLowerCase();
+  const list = (headers.get(`x-forwarded-${name}`) || "")
+    .split(",")
+    .map((v) => v.trim())
+    .filter(Boolean);
+  if (list.length === 0) return null;
+  return list[Math.max(0, list.length - (length - at))].toLowerCase();
+}
+
+// What a forwarded Host may look like: a name or IPv4 address, or a
+// bracketed IPv6 one, with an optional port.
+const FORWARDED_HOST = /^(?:[a-z0-9-]+(?:\.[a-z0-9-]+)*|\[[0-9a-f:.]+\])(?::\d{1,5})?$/i;
+
+/**
+ * Who a request is from, as far as Next should know.
+ *   address    — the client: the peer, or with trusted proxies the
+ *                nearest untrusted hop in the forwarding chain
+ *   encrypted  — the client's scheme was https: the listener's own
+ *                (a TLS one terminates it) unless a trusted proxy says
+ *   forwarding — undefined: headers pass as sent; null: drop every
+ *                forwarding header (untrusted peer); an object: the
+ *                forwarding headers to hand on instead, rebuilt from
+ *                what the proxies recorded for the client's hop —
+ *                X-Forwarded-For trimmed to start at the client so
+ *                entries it prepended itself are gone, proto/host/port
+ *                from that hop, X-Real-IP the resolved client
+ */
+function resolveClient(request, server, trust = trustedProxies) {
+  const ip = server && server.requestIP(request);
+  const peer = (ip && (relayedPeers.get(ip.port) ?? ip.address)) || null;
+  const direct = !!server && server.protocol === "https";
+  if (!trust) return { address: peer, encrypted: direct, forwarding: undefined };
+  const { headers } = request;
+  const chain = forwardedChain(headers);
+  const hops = [...chain, peer];
+  // A unix-socket peer (no address) is a local process: the proxy.
+  const trusted = (i) =>
+    i === hops.length - 1 && peer == null ? true : inTrustedRange(trust, hops[i]);
+  let at = hops.length - 1;
+  if (trust.hops) at = Math.max(0, at - trust.hops);
+  else while (at > 0 && trusted(at)) at--;
+  // The peer itself is the client: no proxy vouches for any header.
+  if (at === hops.length - 1) {
+    return { address: peer, encrypted: direct, forwarding: null };
+  }
+  const proto = forwardedValue(headers, "proto", chain.length, at);
+  const encrypted = proto === "https" || proto === "http" ? proto === "https" : direct;
+  const forwarding = {
+    "x-forwarded-for": chain.slice(at).join(", "),
+    "x-forwarded-proto": encrypted ? "https" : "http",
+  };
+  const host = forwardedValue(headers, "host", chain.length, at);
+  if (host && FORWARDED_HOST.test(host)) forwarding["x-forwarded-host"] = host;
+  const port = forwardedValue(headers, "port", chain.length, at);
+  if (port && /^\d{1,5}$/.test(port)) forwarding["x-forwarded-port"] = port;
+  if (parseIp(hops[at])) forwarding["x-real-ip"] = hops[at];
+  const elements = forwardedElements(headers);
+  if (elements) forwarding.forwarded = elements.slice(at).map((e) => e.trim()).join(", ");
+  return { address: hops[at], encrypted, forwarding };
+}
+
+/* ---------------------------------------------------------------- *
+ * Request limits (opt-in via NBC_MAX_BODY_BYTES, NBC_REQUEST_TIMEOUT)
+ *
+ * Bounds on what a request may cost Next: how much body it can stream
+ * into the Node request, and how long its render may run. Enforced in
+ * the bridge, which answers 413/504 itself and tears the shims down so
+ * Next's own abort handling runs.
+ * ---------------------------------------------------------------- */
+
+/**
+ * NBC_MAX_BODY_BYTES is a default and/or `prefix=size` overrides,
+ * comma separated ("1m, /api/upload=200m"); the longest matching prefix
+ * wins. NBC_REQUEST_TIMEOUT is milliseconds. Anything unset is
+ * unlimited.
+ */
+function requestLimits(env = process.env) {
+  let fallback = Infinity;
+  const prefixes = [];
+  for (const entry of (env.NBC_MAX_BODY_BYTES || "").split(",")) {
+    if (!entry.trim()) continue;
+    const eq = entry.indexOf("=");
+    const bytes = parseBytes(eq < 0 ? entry : entry.slice(eq + 1), null);
+    if (bytes == null) {
+      console.warn(
+        `next-bun-compile: NBC_MAX_BODY_BYTES entry ${entry.trim()} not recognized — ignored`
+      );
+    } else if (eq < 0) {
+      fallback = bytes;
+    } else {
+      prefixes.push([entry.slice(0, eq).trim(), bytes]);
+    }
+  }
+  prefixes.sort((a, b) => b[0].length - a[0].length);
+  const timeoutMs = parseInt(env.NBC_REQUEST_TIMEOUT, 10);
+  return {
+    maxBodyBytes(pathname) {
+      const hit = prefixes.find(([prefix]) => pathname.startsWith(prefix));
+      return hit ? hit[1] : fallback;
+    },
+    // The largest body any path accepts — Bun's own cap must not be
+    // lower, or it would answer for us.
+    ceiling: Math.max(fallback, ...prefixes.map(([, bytes]) => bytes)),
+    timeoutMs: timeoutMs > 0 ? timeoutMs : 0,
+  };
+}
+
+const NO_LIMITS = requestLimits({});
 
 /* ---------------------------------------------------------------- *
  * fetch → node bridge
@@ -28,13 +418,26 @@ const { Readable, Writable } = require("stream");
  * flush, not at end, so streamed SSR / PPR resume behave identically.
  * ---------------------------------------------------------------- */
 
-function makeSocket(remoteAddr) {
+/**
+ * The client address for a request — the peer Bun saw, or the forwarded
+ * client behind a trusted proxy — or null (closed, unix socket).
+ */
+function clientAddress(request, server) {
+  return resolveClient(request, server).address;
+}
+
+// Which tier actually produced a request's response, when that differs
+// from the route it was dispatched to — a tier route that bounces to Next,
+// an L1 hit on the fallback. Read by the access log.
+const servedBy = new WeakMap(); // Request → tier
+
+function makeSocket(remoteAddr, encrypted = false) {
   return {
     remoteAddress: remoteAddr,
     remotePort: 0,
     localAddress: "127.0.0.1",
     localPort: 0,
-    encrypted: false,
+    encrypted,
     destroyed: false,
     readable: true,
     writable: true,
@@ -54,11 +457,13 @@ function makeSocket(remoteAddr) {
   };
 }
 
-function makeNodeRequest(request, remoteAddr) {
+/**
+ * `client` is resolveClient()'s view; omitted, headers pass as sent.
+ * `body` replaces request.body (the bridge's size-metered copy).
+ */
+function makeNodeRequest(request, remoteAddr, client = {}, body = request.body) {
   const url = new URL(request.url);
-  const req = request.body
-    ? Readable.fromWeb(request.body)
-    : Readable.from([]);
+  const req = body ? Readable.fromWeb(body) : Readable.from([]);
   req.httpVersion = "1.1";
   req.httpVersionMajor = 1;
   req.httpVersionMinor = 1;
@@ -67,13 +472,20 @@ function makeNodeRequest(request, remoteAddr) {
   req.originalUrl = req.url;
   const headers = {};
   const rawHeaders = [];
+  const { forwarding, encrypted = false } = client;
   for (const [k, v] of request.headers) {
+    // Untrusted: dropped. Trusted: replaced by resolveClient()'s rebuild.
+    if (forwarding !== undefined && FORWARDING_HEADERS.includes(k)) continue;
+    headers[k] = v;
+    rawHeaders.push(k, v);
+  }
+  for (const [k, v] of Object.entries(forwarding || {})) {
     headers[k] = v;
     rawHeaders.push(k, v);
   }
   req.headers = headers;
   req.rawHeaders = rawHeaders;
-  req.socket = makeSocket(remoteAddr);
+  req.socket = makeSocket(remoteAddr, encrypted);
   req.connection = req.socket;
   req.aborted = false;
   req.complete = true;
@@ -213,11 +625,76 @@ class NodeResponseShim extends Writable {
   }
 }
 
-function createBridge(getHandler) {
+/**
+ * A set of in-flight work that can be awaited until empty. Shutdown drains
+ * through it: bridge requests stay tracked until Next finishes writing the
+ * body (not merely until the head flushes), L1 buffering until the copy is
+ * stored.
+ */
+function createTracker() {
+  const pending = new Set();
+  let waiters = [];
+  return {
+    get size() {
+      return pending.size;
+    },
+    add(item) {
+      pending.add(item);
+    },
+    done(item) {
+      if (!pending.delete(item) || pending.size > 0) return;
+      for (const wake of waiters) wake();
+      waiters = [];
+    },
+    idle() {
+      if (pending.size === 0) return Promise.resolve();
+      return new Promise((resolve) => waiters.push(resolve));
+    },
+  };
+}
+
+const LIMIT_REASONS = { 413: "body-too-large", 504: "timeout" };
+
+function limitResponse(status) {
+  metrics.inc("nbc_bridge_limit_responses_total", {
+    reason: LIMIT_REASONS[status],
+  });
+  return new Response(null, { status });
+}
+
+function createBridge(getHandler, inflight, limits = NO_LIMITS) {
   return async function bridge(request, server) {
-    const remoteAddr =
-      (server && server.requestIP(request)?.address) || "127.0.0.1";
-    const req = makeNodeRequest(request, remoteAddr);
+    const client = resolveClient(request, server);
+    const maxBody = limits.maxBodyBytes(new URL(request.url).pathname);
+    // Declared too big: refused before Next sees any of it.
+    if (
+      request.body &&
+      Number(request.headers.get("content-length")) > maxBody
+    ) {
+      return limitResponse(413);
+    }
+    // Chunked (or understated) bodies are metered as Next reads them.
+    let overflow;
+    let received = 0;
+    const body =
+      request.body && maxBody < Infinity
+        ? request.body.pipeThrough(
+            new TransformStream({
+              transform(chunk, controller) {
+                received += chunk.byteLength;
+                if (received > maxBody) overflow();
+                else controller.enqueue(chunk);
+              },
+            })
+          )
+        : request.body;
+    const req = makeNodeRequest(
+      request,
+      client.address || "127.0.0.1",
+      client,
+      body
+    );
+    servedBy.set(request, "next");
     let settled = false;
     return await new Promise((resolve, reject) => {
       const res = new NodeResponseShim(req, (status, headers, body) => {
@@ -234,25 +711,424 @@ function createBridge(getHandler) {
           })
         );
       });
+      // The shim closes once Next has ended (or torn down) the response —
+      // only then is the request done as far as a drain is concerned, and
+      // that is the latency the histogram records.
+      const startedAt = performance.now();
+      let released = false;
+      let timer = null;
+      const release = () => {
+        if (released) return;
+        released = true;
+        clearTimeout(timer);
+        if (inflight) inflight.done(res);
+        metrics.observe(
+          "nbc_bridge_request_duration_seconds",
+          (performance.now() - startedAt) / 1000
+        );
+      };
+      if (inflight) inflight.add(res);
+      res.once("close", release);
       res.on("error", (err) => {
         if (!settled) {
           settled = true;
           reject(err);
         }
       });
-      request.signal.addEventListener("abort", () => {
+      const abort = () => {
         req.aborted = true;
         req.destroy();
         res.destroy();
-      });
-      Promise.resolve(getHandler()(req, res)).catch((err) => {
+      };
+      request.signal.addEventListener("abort", abort);
+      // Over a limit: answer for Next unless its response has already
+      // started, then tear down exactly as a client disconnect would —
+      // Next's close listeners abort the render.
+      const cutOff = (status) => {
+        if (settled) {
+          metrics.inc("nbc_bridge_limit_responses_total", {
+            reason: LIMIT_REASONS[status],
+          });
+        } else {
+          settled = true;
+          resolve(limitResponse(status));
+        }
+        abort();
+      };
+      overflow = () => cutOff(413);
+      if (limits.timeoutMs > 0) {
+        timer = setTimeout(() => cutOff(504), limits.timeoutMs);
+      }
+      const fail = (err) => {
+        release();
         if (!settled) {
           settled = true;
           reject(err);
         }
+      };
+      try {
+        Promise.resolve(getHandler()(req, res)).catch(fail);
+      } catch (err) {
+        fail(err);
+      }
+    });
+  };
+}
+
+/* ---------------------------------------------------------------- *
+ * Access log (opt-in via NBC_ACCESS_LOG)
+ *
+ * One line per completed response, annotated with the tier that
+ * served it: static/public (Tier 1), page (Tier 2), l1, shell, or
+ * next. Written when the body has finished streaming — a streamed
+ * render's duration and byte count are only known then — or when
+ * the client hangs up first.
+ *
+ * NBC_ACCESS_LOG=json     → one JSON object per line
+ * NBC_ACCESS_LOG=combined → Apache/nginx combined format, with the
+ *                           tier and duration (ms) appended
+ * ---------------------------------------------------------------- */
+const ACCESS_LOG_FORMATS = ["json", "combined"];
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+function clfDate(d) {
+  const pad = (n) => String(n).padStart(2, "0");
+  return `${pad(d.getUTCDate())}/${MONTHS[d.getUTCMonth()]}/${d.getUTCFullYear()}:${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}:${pad(d.getUTCSeconds())} +0000`;
+}
+
+function formatAccessLine(format, e) {
+  if (format === "json") {
+    return JSON.stringify({
+      time: e.time.toISOString(),
+      method: e.method,
+      path: e.path,
+      status: e.status,
+      bytes: e.bytes,
+      duration_ms: e.durationMs,
+      ip: e.ip,
+      tier: e.tier,
+      ...(e.aborted && { aborted: true }),
+    });
+  }
+  const quoted = (v) => (v ? `"${v.replace(/"/g, '\\"')}"` : '"-"');
+  return `${e.ip || "-"} - - [${clfDate(e.time)}] "${e.method} ${e.path} HTTP/1.1" ${e.status} ${e.bytes || "-"} ${quoted(e.referer)} ${quoted(e.userAgent)} ${e.tier} ${e.durationMs}`;
+}
+
+/**
+ * Pass a response body through untouched, calling onDone(bytes, aborted)
+ * exactly once: when the last chunk has been pulled, or when the stream
+ * errors or is cancelled (client disconnect).
+ */
+function meterBody(body, onDone) {
+  const reader = body.getReader();
+  let bytes = 0;
+  let ended = false;
+  const end = (aborted) => {
+    if (ended) return;
+    ended = true;
+    onDone(bytes, aborted);
+  };
+  return new ReadableStream({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          controller.close();
+          end(false);
+          return;
+        }
+        bytes += value.byteLength;
+        controller.enqueue(value);
+      } catch (err) {
+        end(true);
+        controller.error(err);
+      }
+    },
+    cancel(reason) {
+      end(true);
+      return reader.cancel(reason);
+    },
+  });
+}
+
+/** Wrap a route handler so its responses are logged once they complete. */
+function withAccessLog(handler, tier, format) {
+  return async (req, server) => {
+    const startedAt = performance.now();
+    let res;
+    try {
+      res = await handler(req, server);
+    } catch (err) {
+      write(500, 0, false);
+      throw err;
+    }
+    function write(status, bytes, aborted) {
+      const url = new URL(req.url);
+      const line = formatAccessLine(format, {
+        time: new Date(),
+        method: req.method,
+        path: url.pathname + url.search,
+        status,
+        bytes,
+        durationMs: Math.round((performance.now() - startedAt) * 100) / 100,
+        ip: clientAddress(req, server),
+        tier: servedBy.get(req) ?? tier,
+        referer: req.headers.get("referer"),
+        userAgent: req.headers.get("user-agent"),
+        aborted,
       });
+      process.stdout.write(line + "\n");
+    }
+    if (res.body == null) {
+      write(res.status, 0, false);
+      return res;
+    }
+    return new Response(
+      meterBody(res.body, (bytes, aborted) => write(res.status, bytes, aborted)),
+      { status: res.status, statusText: res.statusText, headers: res.headers }
+    );
+  };
+}
+
+/* ---------------------------------------------------------------- *
+ * Rate limiting (opt-in via NBC_RATE_LIMIT)
+ *
+ * Token buckets per client and rule, held in this process. Checked
+ * ahead of every tier — a limited request costs a Map lookup, never a
+ * render. The runtime's own /_nbc/ endpoints are never limited.
+ * ---------------------------------------------------------------- */
+
+const RATE_PERIODS = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000 };
+// Buckets held per rule; past this the least recently seen client's
+// goes, so a flood of distinct addresses can't grow the map unbounded.
+const RATE_LIMIT_MAX_BUCKETS = 100000;
+
+/**
+ * NBC_RATE_LIMIT: comma-separated `pattern=count/period` rules, period
+ * s, m or h ("/login=5/m, /api/*=20/s"). `*` matches any run of
+ * characters; the first rule whose pattern matches the path applies.
+ * A bucket holds `count` tokens and refills at count per period, so a
+ * client may burst the full count and then sustain the rate.
+ */
+function parseRateLimits(raw) {
+  const rules = [];
+  for (const entry of (raw || "").split(",")) {
+    if (!entry.trim()) continue;
+    const m = /^\s*(\S+?)\s*=\s*(\d+)\s*\/\s*([smh])\s*$/.exec(entry);
+    if (!m || Number(m[2]) === 0) {
+      console.warn(
+        `next-bun-compile: NBC_RATE_LIMIT rule ${entry.trim()} not recognized — ignored`
+      );
+      continue;
+    }
+    const pattern = m[1];
+    const source = pattern
+      .split("*")
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join(".*");
+    const capacity = Number(m[2]);
+    rules.push({
+      pattern,
+      re: new RegExp(`^${source}$`),
+      capacity,
+      perMs: capacity / RATE_PERIODS[m[3]],
+      buckets: new Map(), // client key → { tokens, at }, least recent first
+    });
+  }
+  return rules;
+}
+
+/**
+ * The limiter for `rules`, keyed by client address (trusted proxies
+ * respected) or, with `keyHeader`, by that request header — but only on
+ * requests a trusted proxy vouches for, which is what sets it. From
+ * anyone else the header is the client's to choose, and a fresh value
+ * per request would be a fresh bucket; those are keyed by address.
+ * `trust` defaults to NBC_TRUSTED_PROXIES; `maxBuckets` caps each rule's
+ * buckets (tests).
+ */
+function createRateLimiter(
+  rules,
+  keyHeader,
+  { trust = undefined, maxBuckets = RATE_LIMIT_MAX_BUCKETS } = {}
+) {
+  const clientKey = (req, server) => {
+    const client = resolveClient(req, server, trust);
+    const v = keyHeader && client.forwarding && req.headers.get(keyHeader);
+    return v ? `h:${v}` : `ip:${client.address ?? ""}`;
+  };
+  // A bucket that has refilled completely is the same as no bucket:
+  // drop those so one-off clients don't accumulate.
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    for (const rule of rules) {
+      for (const [key, b] of rule.buckets) {
+        if (b.tokens + (now - b.at) * rule.perMs >= rule.capacity) {
+          rule.buckets.delete(key);
+        }
+      }
+    }
+  }, 60 * 1000);
+  sweep.unref();
+
+  /** A 429 for a request over its rule's rate, else null. */
+  const check = (req, server) => {
+    const pathname = new URL(req.url).pathname;
+    if (pathname.startsWith("/_nbc/")) return null;
+    const rule = rules.find((r) => r.re.test(pathname));
+    if (!rule) return null;
+    const key = clientKey(req, server);
+    const now = Date.now();
+    const b = rule.buckets.get(key) ?? { tokens: rule.capacity, at: now };
+    b.tokens = Math.min(rule.capacity, b.tokens + (now - b.at) * rule.perMs);
+    b.at = now;
+    // Re-inserted so the map stays in least-recently-seen order.
+    rule.buckets.delete(key);
+    rule.buckets.set(key, b);
+    if (rule.buckets.size > maxBuckets) {
+      rule.buckets.delete(rule.buckets.keys().next().value);
+    }
+    if (b.tokens >= 1) {
+      b.tokens -= 1;
+      return null;
+    }
+    metrics.inc("nbc_rate_limited_total", { rule: rule.pattern });
+    // Whole ms first: perMs is a float, and 1/(1/3600000) isn't 3600000.
+    const wait = Math.ceil(Math.round((1 - b.tokens) / rule.perMs) / 1000);
+    return new Response("Too Many Requests", {
+      status: 429,
+      headers: {
+        "Content-Type": "text/plain; charset=utf-8",
+        "Retry-After": String(Math.max(1, wait)),
+      },
     });
   };
+  const wrap = (handler) => (req, server) =>
+    check(req, server) ?? handler(req, server);
+  return {
+    rules,
+    check,
+    /** Every handler in a route table wrapped (method tables included). */
+    routes(table) {
+      const out = {};
+      for (const [p, h] of Object.entries(table)) {
+        if (typeof h === "function") {
+          out[p] = wrap(h);
+        } else if (h && !(h instanceof Response) && typeof h === "object") {
+          out[p] = Object.fromEntries(
+            Object.entries(h).map(([method, fn]) => [
+              method,
+              typeof fn === "function" ? wrap(fn) : fn,
+            ])
+          );
+        } else {
+          out[p] = h;
+        }
+      }
+      return out;
+    },
+    fetch: wrap,
+    close() {
+      clearInterval(sweep);
+    },
+  };
+}
+
+/* ---------------------------------------------------------------- *
+ * Request hooks (nbc.server.ts)
+ *
+ * The app's own onRequest/onResponse, bundled into the binary by the
+ * build (see ServerHooks in src/hooks.ts). They run around the tiers
+ * themselves, so cross-cutting logic there keeps a route in memory
+ * where the same logic in middleware would hand it to Next.
+ * ---------------------------------------------------------------- */
+
+/** The hooks an nbc.server module exports, or null if it has none. */
+function loadHooks(mod) {
+  if (!mod) return null;
+  const source = mod.onRequest || mod.onResponse ? mod : mod.default;
+  if (!source || (!source.onRequest && !source.onResponse)) return null;
+  return { onRequest: source.onRequest, onResponse: source.onResponse };
+}
+
+/** Wrap a tier handler with the hooks; `tier` is the route's own. */
+function withHooks(handler, tier, hooks) {
+  const { onRequest, onResponse } = hooks;
+  return async (req, server) => {
+    if (onRequest) {
+      const early = await onRequest(req);
+      if (early instanceof Response) {
+        servedBy.set(req, "hook");
+        return early;
+      }
+    }
+    const res = await handler(req, server);
+    if (!onResponse) return res;
+    const replaced = await onResponse(req, res, servedBy.get(req) ?? tier);
+    return replaced instanceof Response ? replaced : res;
+  };
+}
+
+/* ---------------------------------------------------------------- *
+ * WebSockets (nbc.websocket.ts)
+ *
+ * The app's Bun websocket handlers on this same server (see
+ * WebSocketModule in src/websocket.ts). Matching upgrade requests are
+ * taken before any tier; code inside Next publishes to topics through
+ * the handle registered on globalThis under SERVER_KEY.
+ * ---------------------------------------------------------------- */
+
+const SERVER_KEY = Symbol.for("next-bun-compile.server");
+
+/** An nbc.websocket module as { handlers, matches, upgrade }, or null. */
+function loadWebSocket(mod) {
+  if (!mod) return null;
+  const source = mod.websocket ? mod : mod.default;
+  if (!source || !source.websocket) return null;
+  const { path: match, upgrade, websocket: handlers } = source;
+  let matches;
+  if (typeof match === "string") matches = (p) => p === match;
+  else if (match instanceof RegExp) matches = (p) => match.test(p);
+  else if (typeof match === "function") matches = match;
+  else {
+    console.warn(
+      "next-bun-compile: nbc.websocket exports no `path` (string, RegExp or function) — WebSockets off"
+    );
+    return null;
+  }
+  return { handlers, matches, upgrade, label: String(match) };
+}
+
+/**
+ * Wrap the fetch fallback so matching upgrade requests become sockets.
+ * Sits outside the access log and hooks — an upgraded request has no
+ * Response for them — so it applies the rate limit and onRequest itself
+ * (auth and blocking logic there covers sockets too); onResponse has
+ * nothing to see.
+ */
+function withWebSocket(fetch, ws, limiter, hooks) {
+  return async (req, server) => {
+    if ((req.headers.get("upgrade") || "").toLowerCase() !== "websocket") {
+      return fetch(req, server);
+    }
+    const pathname = new URL(req.url).pathname;
+    if (!ws.matches(pathname, req)) return fetch(req, server);
+    const limited = limiter && limiter.check(req, server);
+    if (limited) return limited;
+    if (hooks && hooks.onRequest) {
+      const early = await hooks.onRequest(req);
+      if (early instanceof Response) return early;
+    }
+    let data;
+    if (ws.upgrade) {
+      const verdict = await ws.upgrade(req);
+      if (verdict instanceof Response) return verdict;
+      if (verdict === false) return new Response(null, { status: 403 });
+      data = verdict;
+    }
+    if (server.upgrade(req, { data })) return undefined;
+    return new Response("WebSocket upgrade failed", { status: 400 });
+  };
 }
 
 /* ---------------------------------------------------------------- *
@@ -266,9 +1142,108 @@ const PAGE_VARY =
 const COMPRESSIBLE = /^(text\/|application\/(javascript|json|xml)|image\/svg)/;
 const GZIP_MIN_BYTES = 1024; // match compression middleware's threshold
 
-function acceptsGzip(req) {
-  const ae = req.headers.get("accept-encoding");
-  return !!ae && ae.includes("gzip");
+// Encodings the memory tiers precompute, smallest output first — the
+// tie-break when a client weighs several equally. zstd only where this
+// Bun has it.
+const ENCODINGS = ["br", ...(Bun.zstdCompressSync ? ["zstd"] : []), "gzip"];
+
+/**
+ * Accept-Encoding as [{ coding, q }] in header order (RFC 9110 §12.5.3).
+ * Codings are lowercased; a missing or malformed q is 1.
+ */
+function parseAcceptEncoding(header) {
+  const out = [];
+  for (const part of (header || "").split(",")) {
+    const [name, ...params] = part.split(";");
+    const coding = name.trim().toLowerCase();
+    if (!coding) continue;
+    let q = 1;
+    for (const param of params) {
+      const m = /^\s*q\s*=\s*([01](?:\.\d{0,3})?)\s*$/i.exec(param);
+      if (m) q = Number(m[1]);
+    }
+    out.push({ coding, q });
+  }
+  return out;
+}
+
+// Weight of a coding: its own entry, else the wildcard's, else 0 (an
+// unlisted coding isn't acceptable once the client sends the header).
+function encodingWeight(accepted, coding) {
+  const own = accepted.find((a) => a.coding === coding);
+  if (own) return own.q;
+  const any = accepted.find((a) => a.coding === "*");
+  return any ? any.q : 0;
+}
+
+/**
+ * The best of `available` the request accepts: highest q, ties to the
+ * order of `available`. "identity" when none is acceptable — even if
+ * the client refused identity too, an uncompressed body beats a 406 for
+ * a representation every client can decode.
+ */
+function negotiateEncoding(req, available) {
+  const accepted = parseAcceptEncoding(req.headers.get("accept-encoding"));
+  let best = "identity";
+  let bestQ = 0;
+  for (const coding of available) {
+    const q = encodingWeight(accepted, coding);
+    if (q > bestQ) {
+      best = coding;
+      bestQ = q;
+    }
+  }
+  return best;
+}
+
+/**
+ * The request's acceptable codings, best first, as a stable string — the
+ * L1 key's encoding dimension. The cached response is whatever Next
+ * negotiated, so two requests share an entry only when any negotiator
+ * would treat them the same: same acceptable set, same preference order.
+ */
+function encodingKey(req) {
+  const accepted = parseAcceptEncoding(req.headers.get("accept-encoding"));
+  return accepted
+    .filter((a) => a.q > 0)
+    .sort((a, b) => b.q - a.q) // stable: equal weights keep header order
+    .map((a) => a.coding)
+    .join(",");
+}
+
+// Boot-time levels: fast enough that a few thousand assets don't hold up
+// the first request. The build compresses at the maximum levels instead
+// (precompressVariants in src/generate.ts) — it has the time, and those
+// variants are what a built binary serves.
+const BROTLI_OPTIONS = {
+  params: { [zlib.constants.BROTLI_PARAM_QUALITY]: 5 },
+};
+const ZSTD_LEVEL = 3;
+
+/**
+ * Every precomputed encoding of `bytes` → Uint8Array, or null when the
+ * body is too small to be worth compressing. A variant that doesn't
+ * come out smaller than the raw bytes is left out.
+ */
+function precompress(bytes) {
+  if (bytes.byteLength < GZIP_MIN_BYTES) return null;
+  const variants = {};
+  for (const coding of ENCODINGS) {
+    const out =
+      coding === "br"
+        ? new Uint8Array(zlib.brotliCompressSync(bytes, BROTLI_OPTIONS))
+        : coding === "zstd"
+          ? Bun.zstdCompressSync(bytes, { level: ZSTD_LEVEL })
+          : Bun.gzipSync(bytes);
+    if (out.byteLength < bytes.byteLength) variants[coding] = out;
+  }
+  return variants;
+}
+
+/** Pick the response body for a request from precompress() output. */
+function pickEncoding(req, variants) {
+  if (!variants) return "identity";
+  return negotiateEncoding(req, ENCODINGS.filter((c) => variants[c]));
 }
 
 // __runtime/ assets may be stored gzipped in the binary (they're
@@ -283,14 +1258,209 @@ async function loadBytes(assetMap, key) {
   return gzippedAssetSet.has(key) ? Bun.gunzipSync(bytes) : bytes;
 }
 
+// Compressed variants the build produced (key → { coding: file }), so
+// boot does no compression work. start() fills this from the entry; left
+// null (a caller that doesn't pass them), variants are computed at boot.
+let precompressedAssets = null;
+
+/**
+ * A served body's precompress() variants — embedded, or made now. The
+ * build picks what to precompress by extension, this by content type; a
+ * body it passed over is compressed here rather than served raw.
+ */
+async function loadVariants(key, bytes) {
+  const files = precompressedAssets && precompressedAssets.get(key);
+  if (!files) return precompress(bytes);
+  const variants = {};
+  for (const coding of ENCODINGS) {
+    if (files[coding] != null) variants[coding] = await Bun.file(files[coding]).bytes();
+  }
+  return variants;
+}
+
+// Last-Modified for everything frozen at build time: the embedded assets
+// and Tier-2 pages. start() sets it from the entry's build timestamp.
+let builtLastModified = null;
+
 function contentTypeFor(assetMap, key, fallback) {
   const ref = assetMap.get(key);
   const t = ref != null ? Bun.file(ref).type : "";
   return t || fallback || "application/octet-stream";
 }
 
-/** Tier 1: exact-path static Responses. */
-async function buildTier1Routes(tier1, assetMap, bridge) {
+/* ----------------------------------------------------------------------------
+ * Conditional requests (RFC 9110 §13)
+ *
+ * The handler-served tiers evaluate preconditions the way Bun's native
+ * static dispatch already does for plain Tier-1 Responses, so CDNs that
+ * revalidate with weak tags, tag lists or dates get their 304s too.
+ * --------------------------------------------------------------------------*/
+
+/** Entity tags of an If-Match / If-None-Match list; "*" stays as-is. */
+function parseEtagList(header) {
+  return header.match(/\*|(?:W\/)?"[^"]*"/g) || [];
+}
+
+/** Weak comparison: opaque tags equal, W/ prefixes ignored. */
+function weakMatch(a, b) {
+  return a.replace(/^W\//, "") === b.replace(/^W\//, "");
+}
+
+/** Strong comparison: both tags strong and identical. */
+function strongMatch(a, b) {
+  return !a.startsWith("W/") && a === b;
+}
+
+/** An HTTP-date in whole seconds, or NaN. */
+function httpDate(raw) {
+  return raw ? Math.floor(Date.parse(raw) / 1000) : NaN;
+}
+
+/**
+ * 304 or 412 for a GET/HEAD whose preconditions say so, else 0.
+ * Evaluated in RFC 9110 §13.2.2 order: If-Match, else If-Unmodified-
+ * Since; then If-None-Match, which (when present) makes If-Modified-
+ * Since moot. `lastModified` is an HTTP-date or null.
+ */
+function preconditionStatus(req, etag, lastModified) {
+  const h = req.headers;
+  const modified = lastModified ? httpDate(lastModified) : NaN;
+  const ifMatch = h.get("if-match");
+  if (ifMatch != null) {
+    const tags = parseEtagList(ifMatch);
+    if (!tags.some((t) => t === "*" || (etag && strongMatch(t, etag)))) {
+      return 412;
+    }
+  } else if (modified > httpDate(h.get("if-unmodified-since"))) {
+    // (NaN on either side — no date, or none sent — compares false.)
+    return 412;
+  }
+  const ifNoneMatch = h.get("if-none-match");
+  if (ifNoneMatch != null) {
+    const tags = parseEtagList(ifNoneMatch);
+    return tags.some((t) => t === "*" || (etag && weakMatch(t, etag))) ? 304 : 0;
+  }
+  const since = httpDate(h.get("if-modified-since"));
+  return modified <= since ? 304 : 0;
+}
+
+/**
+ * The 304 (carrying the validators and caching headers) or bare 412 for a
+ * preconditionStatus() result.
+ */
+function conditionalResponse(status, headers) {
+  return new Response(null, status === 304 ? { status, headers } : { status });
+}
+
+/**
+ * Whether an If-Range validator still names the current representation:
+ * a strong ETag match, or exactly the Last-Modified date.
+ */
+function ifRangeHolds(ifRange, etag, lastModified) {
+  const v = ifRange.trim();
+  if (v.startsWith('"') || v.startsWith("W/")) return !!etag && strongMatch(v, etag);
+  return !!lastModified && httpDate(v) === httpDate(lastModified);
+}
+
+/**
+ * A Range header against a body of `size` bytes, the way Next's
+ * send-based static handler reads it (range-parser with `combine`):
+ *   null — no byte range to honour (absent, another unit, malformed):
+ *          serve the whole body
+ *   []   — syntactically fine but nothing satisfiable: 416
+ *   [{ start, end }] — inclusive, sorted, overlaps and adjacent
+ *          ranges merged
+ */
+function parseRange(header, size) {
+  const m = /^\s*bytes=(.*)$/i.exec(header || "");
+  if (!m) return null;
+  const ranges = [];
+  for (const spec of m[1].split(",")) {
+    const parts = /^\s*(\d*)\s*-\s*(\d*)\s*$/.exec(spec);
+    if (!parts || (parts[1] === "" && parts[2] === "")) return null;
+    let start;
+    let end;
+    if (parts[1] === "") {
+      // Suffix range: the last N bytes.
+      start = Math.max(0, size - Number(parts[2]));
+      end = size - 1;
+    } else {
+      start = Number(parts[1]);
+      end = parts[2] === "" ? size - 1 : Math.min(Number(parts[2]), size - 1);
+    }
+    if (start > end || start >= size) continue;
+    ranges.push({ start, end });
+  }
+  ranges.sort((a, b) => a.start - b.start);
+  const merged = [];
+  for (const r of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && r.start <= last.end + 1) last.end = Math.max(last.end, r.end);
+    else merged.push({ ...r });
+  }
+  return merged;
+}
+
+/**
+ * A 206/416 for a ranged GET of in-memory `bytes`, or null to serve the
+ * whole body (no Range, an unparseable one, or an If-Range validator
+ * that no longer matches). One range is a plain 206 with Content-Range;
+ * several become a multipart/byteranges body. `headers` are the full
+ * response's (Last-Modified included), minus Content-Length.
+ */
+function rangeResponse(req, bytes, headers, etag) {
+  const ranges = parseRange(req.headers.get("range"), bytes.byteLength);
+  if (ranges == null) return null;
+  const ifRange = req.headers.get("if-range");
+  if (ifRange && !ifRangeHolds(ifRange, etag, headers["Last-Modified"])) {
+    return null;
+  }
+  const total = bytes.byteLength;
+  const head = req.method === "HEAD";
+  if (ranges.length === 0) {
+    return new Response(null, {
+      status: 416,
+      headers: { ...headers, "Content-Range": `bytes */${total}` },
+    });
+  }
+  if (ranges.length === 1) {
+    const { start, end } = ranges[0];
+    return new Response(head ? null : bytes.subarray(start, end + 1), {
+      status: 206,
+      headers: {
+        ...headers,
+        "Content-Range": `bytes ${start}-${end}/${total}`,
+        "Content-Length": String(end - start + 1),
+      },
+    });
+  }
+  const boundary = `nbc-${Bun.hash(etag + req.headers.get("range")).toString(36)}`;
+  const encoder = new TextEncoder();
+  const parts = [];
+  for (const { start, end } of ranges) {
+    parts.push(
+      encoder.encode(
+        `\r\n--${boundary}\r\nContent-Type: ${headers["Content-Type"]}\r\nContent-Range: bytes ${start}-${end}/${total}\r\n\r\n`
+      ),
+      bytes.subarray(start, end + 1)
+    );
+  }
+  parts.push(encoder.encode(`\r\n--${boundary}--\r\n`));
+  const body = Buffer.concat(parts);
+  return new Response(head ? null : body, {
+    status: 206,
+    headers: {
+      ...headers,
+      "Content-Type": `multipart/byteranges; boundary=${boundary}`,
+      "Content-Length": String(body.byteLength),
+    },
+  });
+}
+
+/** Tier 1: exact-path static Responses. `observed` turns the plain
+ *  static routes into handlers (Bun dispatches a static Response natively
+ *  — nothing of ours runs to count or log the hit). */
+async function buildTier1Routes(tier1, assetMap, bridge, observed = false) {
   const routes = {};
   await Promise.all(
     tier1.map(async ({ urlPath, key, kind }) => {
@@ -300,35 +1470,57 @@ async function buildTier1Routes(tier1, assetMap, bridge) {
       const headers = {
         "Content-Type": contentType,
         "Cache-Control": kind === "static" ? IMMUTABLE : "public, max-age=0",
+        ...(builtLastModified && { "Last-Modified": builtLastModified }),
       };
-      // Text assets gzip like baseline (Next runs compression middleware
-      // over everything it serves). Precompressed once at boot.
-      if (
-        COMPRESSIBLE.test(contentType) &&
-        bytes.byteLength >= GZIP_MIN_BYTES
-      ) {
-        const gz = Bun.gzipSync(bytes);
+      // Text assets compress like baseline (Next runs compression
+      // middleware over everything it serves), in every encoding we can
+      // negotiate. Precompressed once at boot.
+      const variants = COMPRESSIBLE.test(contentType)
+        ? await loadVariants(key, bytes)
+        : null;
+      if (variants) {
         const etag = `"${Bun.hash(bytes).toString(36)}"`;
         const base = {
           ...headers,
           Vary: "Accept-Encoding",
           ETag: etag,
+          ...(kind === "public" && { "Accept-Ranges": "bytes" }),
         };
         routes[urlPath] = (req, server) => {
           if (req.method !== "GET" && req.method !== "HEAD") {
             return bridge(req, server);
           }
-          if (kind === "public" && req.headers.has("range")) {
-            return bridge(req, server);
+          const precondition = preconditionStatus(req, etag, builtLastModified);
+          if (precondition) {
+            metrics.inc("nbc_tier_responses_total", {
+              tier: kind,
+              status: precondition,
+              encoding: "none",
+            });
+            return conditionalResponse(precondition, base);
           }
-          if (req.headers.get("if-none-match") === etag) {
-            return new Response(null, { status: 304, headers: base });
+          // Ranges address the identity bytes, so a ranged response is
+          // never compressed.
+          const ranged =
+            kind === "public" && rangeResponse(req, bytes, base, etag);
+          if (ranged) {
+            metrics.inc("nbc_tier_responses_total", {
+              tier: kind,
+              status: ranged.status,
+              encoding: "identity",
+            });
+            return ranged;
           }
-          const gzip = acceptsGzip(req);
-          const body = gzip ? gz : bytes;
+          const encoding = pickEncoding(req, variants);
+          metrics.inc("nbc_tier_responses_total", {
+            tier: kind,
+            status: 200,
+            encoding,
+          });
+          const body = encoding === "identity" ? bytes : variants[encoding];
           const h = {
             ...base,
-            ...(gzip && { "Content-Encoding": "gzip" }),
+            ...(encoding !== "identity" && { "Content-Encoding": encoding }),
             "Content-Length": String(body.byteLength),
           };
           return new Response(req.method === "HEAD" ? null : body, {
@@ -339,24 +1531,59 @@ async function buildTier1Routes(tier1, assetMap, bridge) {
       }
       if (kind === "public") {
         // Next serves public files with range support; embedded static
-        // Responses can't. Serve from memory unless a Range arrives, and
-        // let non-GET/HEAD methods reach Next so its semantics (405s)
-        // stay intact.
+        // Responses can't, so ranges are cut from the same memory here.
+        // Non-GET/HEAD methods reach Next so its semantics (405s) stay
+        // intact.
         const etag = `"${Bun.hash(bytes).toString(36)}"`;
+        const ranging = { ...headers, ETag: etag, "Accept-Ranges": "bytes" };
         const withMeta = {
-          ...headers,
-          ETag: etag,
-          "Accept-Ranges": "bytes",
+          ...ranging,
           "Content-Length": String(bytes.byteLength),
         };
         routes[urlPath] = (req, server) => {
           if (req.method !== "GET" && req.method !== "HEAD") {
             return bridge(req, server);
           }
-          if (req.headers.has("range")) return bridge(req, server);
-          if (req.headers.get("if-none-match") === etag) {
-            return new Response(null, { status: 304, headers: withMeta });
+          const precondition = preconditionStatus(req, etag, builtLastModified);
+          if (precondition) {
+            metrics.inc("nbc_tier_responses_total", {
+              tier: kind,
+              status: precondition,
+              encoding: "none",
+            });
+            return conditionalResponse(precondition, withMeta);
+          }
+          const ranged = rangeResponse(req, bytes, ranging, etag);
+          metrics.inc("nbc_tier_responses_total", {
+            tier: kind,
+            status: ranged ? ranged.status : 200,
+            encoding: "identity",
+          });
+          if (ranged) return ranged;
+          return new Response(req.method === "HEAD" ? null : bytes, {
+            headers: withMeta,
+          });
+        };
+      } else if (observed) {
+        // Same bytes and revalidation Bun's static dispatch gives, with
+        // the hit visible to us.
+        const etag = `"${Bun.hash(bytes).toString(36)}"`;
+        const withMeta = { ...headers, ETag: etag };
+        routes[urlPath] = (req) => {
+          const precondition = preconditionStatus(req, etag, builtLastModified);
+          if (precondition) {
+            metrics.inc("nbc_tier_responses_total", {
+              tier: kind,
+              status: precondition,
+              encoding: "none",
+            });
+            return conditionalResponse(precondition, withMeta);
           }
+          metrics.inc("nbc_tier_responses_total", {
+            tier: kind,
+            status: 200,
+            encoding: "identity",
+          });
           return new Response(req.method === "HEAD" ? null : bytes, {
             headers: withMeta,
           });
@@ -371,13 +1598,18 @@ async function buildTier1Routes(tier1, assetMap, bridge) {
 
 /** Tier 2: prerendered page with RSC negotiation + ETag/304. */
 function makePageHandler(page, bridge) {
-  const { html, rsc, headers: metaHeaders, status, contentType, deploymentId } =
-    page;
+  const {
+    html,
+    rsc,
+    htmlVariants,
+    rscVariants,
+    headers: metaHeaders,
+    status,
+    contentType,
+    deploymentId,
+  } = page;
   const htmlEtag = `"${Bun.hash(html).toString(36)}"`;
   const rscEtag = rsc ? `"${Bun.hash(rsc).toString(36)}"` : null;
-  const htmlGz = html.byteLength >= GZIP_MIN_BYTES ? Bun.gzipSync(html) : null;
-  const rscGz =
-    rsc && rsc.byteLength >= GZIP_MIN_BYTES ? Bun.gzipSync(rsc) : null;
 
   const base = {};
   let hasCacheControl = false;
@@ -391,6 +1623,8 @@ function makePageHandler(page, bridge) {
   // prerender policy.
   if (!hasCacheControl) base["Cache-Control"] = "s-maxage=31536000";
   base["x-nextjs-cache"] = "HIT";
+  // Frozen since the build, so the build time is its modification time.
+  if (builtLastModified) base["Last-Modified"] = builtLastModified;
 
   return (req, server) => {
     // Draft/preview mode and segment prefetches have per-request
@@ -408,15 +1642,15 @@ function makePageHandler(page, bridge) {
     const body = wantsRsc ? rsc : html;
     if (body == null) return bridge(req, server);
     const etag = wantsRsc ? rscEtag : htmlEtag;
-    const gz = wantsRsc ? rscGz : htmlGz;
-    const useGzip = gz && acceptsGzip(req);
-    const payload = useGzip ? gz : body;
+    const variants = wantsRsc ? rscVariants : htmlVariants;
+    const encoding = pickEncoding(req, variants);
+    const payload = encoding === "identity" ? body : variants[encoding];
     const headers = {
       ...base,
       "Content-Type": wantsRsc
         ? "text/x-component"
         : contentType || "text/html; charset=utf-8",
-      ...(useGzip && { "Content-Encoding": "gzip" }),
+      ...(encoding !== "identity" && { "Content-Encoding": encoding }),
       "Content-Length": String(payload.byteLength),
       ETag: etag,
       // Baseline sends X-Powered-By on documents but not RSC payloads.
@@ -426,9 +1660,20 @@ function makePageHandler(page, bridge) {
       ...(wantsRsc &&
         deploymentId && { "x-nextjs-deployment-id": deploymentId }),
     };
-    if (req.headers.get("if-none-match") === etag) {
-      return new Response(null, { status: 304, headers });
+    const precondition = preconditionStatus(req, etag, builtLastModified);
+    if (precondition) {
+      metrics.inc("nbc_tier_responses_total", {
+        tier: "page",
+        status: precondition,
+        encoding: "none",
+      });
+      return conditionalResponse(precondition, headers);
     }
+    metrics.inc("nbc_tier_responses_total", {
+      tier: "page",
+      status,
+      encoding,
+    });
     return new Response(req.method === "HEAD" ? null : payload, {
       status,
       headers,
@@ -447,6 +1692,8 @@ async function buildTier2Routes(staticPages, assetMap, bridge, deploymentId) {
         {
           html,
           rsc,
+          htmlVariants: await loadVariants(spec.htmlKey, html),
+          rscVariants: rsc ? await loadVariants(spec.rscKey, rsc) : null,
           headers: spec.headers,
           status: spec.status,
           contentType: spec.contentType,
@@ -516,12 +1763,33 @@ function readShellPair(metaPath, htmlPath) {
   // revalidatePath land here (the latter as `_N_T_/<path>`). Passed
   // through so a tag-aware CDN can index the shell and purge it by tag
   // instead of waiting out its TTL.
-  const raw = (meta.headers && meta.headers["x-next-cache-tags"]) || "";
-  const tags = raw
+  const tags = splitTags(meta.headers && meta.headers["x-next-cache-tags"]);
+  return { shell, postponed, tags };
+}
+
+/** A comma-separated x-next-cache-tags value as a list. */
+function splitTags(raw) {
+  return (raw || "")
     .split(",")
     .map((t) => t.trim())
     .filter(Boolean);
-  return { shell, postponed, tags };
+}
+
+/**
+ * Tags an incremental-cache read ties a render to: the entry's own
+ * x-next-cache-tags (pages and route handlers, implicit `_N_T_` path tags
+ * included) plus the tags the caller asked with (fetch and `use cache`
+ * reads pass them in the context).
+ */
+function cacheEntryTags(entry, ctx) {
+  const value = entry && entry.value;
+  const tags = splitTags(value && value.headers && value.headers["x-next-cache-tags"]);
+  for (const list of [value && value.tags, ctx && ctx.tags, ctx && ctx.softTags]) {
+    if (Array.isArray(list)) {
+      for (const t of list) if (typeof t === "string") tags.push(t);
+    }
+  }
+  return tags;
 }
 
 function pairStamp(metaPath, htmlPath) {
@@ -564,14 +1832,8 @@ async function shellPairFromCache(route, fallbackTags) {
           ? value.html.toString("utf-8")
           : null;
     if (typeof shell !== "string" || !shell) return null;
-    const raw =
-      (value.headers && value.headers["x-next-cache-tags"]) || "";
-    const tags = raw
-      ? raw
-          .split(",")
-          .map((t) => t.trim())
-          .filter(Boolean)
-      : fallbackTags;
+    const raw = value.headers && value.headers["x-next-cache-tags"];
+    const tags = raw ? splitTags(raw) : fallbackTags;
     return { shell, postponed, tags };
   } catch {
     return null;
@@ -630,12 +1892,18 @@ function shellRoute(metaPath, htmlPath, route, buildId, token, pair) {
   };
   return async (req) => {
     if (token && req.headers.get("x-nbc-shell-token") !== token) {
+      metrics.inc("nbc_shell_responses_total", { status: 401 });
       return new Response(null, { status: 401 });
     }
     await current();
-    if (req.headers.get("if-none-match") === etag) {
-      return new Response(null, { status: 304, headers });
+    // No Last-Modified: a regeneration can replace the pair at any time,
+    // and the ETag already tracks it.
+    const precondition = preconditionStatus(req, etag, null);
+    if (precondition) {
+      metrics.inc("nbc_shell_responses_total", { status: precondition });
+      return conditionalResponse(precondition, headers);
     }
+    metrics.inc("nbc_shell_responses_total", { status: 200 });
     return new Response(payload, { headers });
   };
 }
@@ -655,101 +1923,706 @@ function shellGuard(sources) {
       res.push(/.*/); // unparseable rule: fail closed
     }
   }
-  return (p) => res.some((re) => re.test(p));
+  return (p) => res.some((re) => re.test(p));
+}
+
+/**
+ * Publish the PPR shell/postponed pairs a CDN may serve.
+ *
+ * `guards` is what keeps this honest. Handing a shell to a CDN moves the
+ * response head to the edge, where it is committed before the origin has
+ * rendered anything — so a Set-Cookie, a redirect, or a non-200 that the
+ * request would have earned at the origin can no longer reach the client.
+ * The CDN has already sent 200 + headers and can only append body bytes.
+ *
+ * The invariant: a route that can emit a Set-Cookie, a redirect, or a
+ * non-200 status before or during its dynamic render must not have an
+ * edge-served shell. Middleware coverage is the part of that we can see
+ * from a build, and it is the part that bites hardest — an auth gate that
+ * silently stops running is indistinguishable from no auth gate. It is
+ * not the whole invariant: a `redirect()` or `notFound()` from inside a
+ * dynamic hole fails the same way on a route no matcher covers. Those
+ * routes must be kept off the CDN by hand (drop them from the worker's
+ * route list); this only guarantees the statically-provable half.
+ */
+function buildShellRoutes(baseDir, guards = []) {
+  const raw = process.env.NBC_PPR_SHELL;
+  if (!raw) return {};
+  const covered = shellGuard(guards);
+  const token = raw === "1" || raw === "true" ? null : raw;
+  const appDir = path.join(baseDir, ".next", "server", "app");
+  let buildId = "";
+  try {
+    buildId = fs
+      .readFileSync(path.join(baseDir, ".next", "BUILD_ID"), "utf-8")
+      .trim();
+  } catch {}
+  const routes = {};
+  let excluded = 0;
+  const walk = (dir) => {
+    let entries;
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const e of entries) {
+      const full = path.join(dir, e.name);
+      if (e.isDirectory()) {
+        walk(full);
+        continue;
+      }
+      if (!e.name.endsWith(".meta")) continue;
+      const htmlPath = full.slice(0, -".meta".length) + ".html";
+      const pair = readShellPair(full, htmlPath);
+      if (!pair) continue;
+      const rel = path
+        .relative(appDir, full)
+        .slice(0, -".meta".length)
+        .split(path.sep)
+        .join("/");
+      const routePath = rel === "index" ? "/" : "/" + rel;
+      // No route, so the endpoint 404s and the CDN passes through
+      // permanently — the origin keeps owning this response head.
+      if (covered(routePath)) {
+        excluded++;
+        continue;
+      }
+      routes[SHELL_PREFIX + rel] = shellRoute(
+        full,
+        htmlPath,
+        routePath,
+        buildId,
+        token,
+        pair
+      );
+    }
+  };
+  walk(appDir);
+  const count = Object.keys(routes).length;
+  if (count > 0) {
+    console.log(
+      `next-bun-compile: PPR shell endpoint serving ${count} route(s) from memory`
+    );
+  }
+  // Worth saying out loud: someone who put these routes in a CDN route
+  // list is otherwise left staring at 404s with no explanation.
+  if (excluded > 0) {
+    console.log(
+      `next-bun-compile: PPR shell endpoint withholding ${excluded} route(s) covered by proxy/routing rules — their response head belongs to the origin`
+    );
+  }
+  return routes;
+}
+
+/* ---------------------------------------------------------------- *
+ * L1 storage
+ * ---------------------------------------------------------------- */
+
+/**
+ * A byte count from the environment: plain bytes or a binary k/m/g
+ * suffix ("64m" → 67108864). Anything unparseable is the fallback.
+ */
+function parseBytes(raw, fallback) {
+  const m = /^\s*(\d+(?:\.\d+)?)\s*([kmg]?)i?b?\s*$/i.exec(raw || "");
+  if (!m) return fallback;
+  const scale = { "": 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3 }[m[2].toLowerCase()];
+  return Math.floor(Number(m[1]) * scale);
+}
+
+/**
+ * Least-recently-used map bounded by the summed `size` of its entries.
+ * get() refreshes recency; set() evicts from the cold end until the
+ * newcomer fits and refuses one bigger than the whole budget. Every
+ * removal except an overwrite goes through onEvict(key, reason).
+ */
+function createLru(maxBytes, onEvict) {
+  const entries = new Map(); // iteration order = recency, coldest first
+  let bytes = 0;
+  const unlink = (key) => {
+    const entry = entries.get(key);
+    if (!entry) return false;
+    entries.delete(key);
+    bytes -= entry.size;
+    return true;
+  };
+  return {
+    maxBytes,
+    get size() {
+      return entries.size;
+    },
+    get bytes() {
+      return bytes;
+    },
+    get(key) {
+      const entry = entries.get(key);
+      if (entry) {
+        entries.delete(key);
+        entries.set(key, entry);
+      }
+      return entry;
+    },
+    set(key, entry) {
+      if (entry.size > maxBytes) return false;
+      unlink(key);
+      while (bytes + entry.size > maxBytes) {
+        const coldest = entries.keys().next().value;
+        unlink(coldest);
+        onEvict(coldest, "capacity");
+      }
+      entries.set(key, entry);
+      bytes += entry.size;
+      return true;
+    },
+    delete(key, reason) {
+      if (!unlink(key)) return false;
+      onEvict(key, reason);
+      return true;
+    },
+    [Symbol.iterator]() {
+      return entries.entries();
+    },
+  };
+}
+
+/* ---------------------------------------------------------------- *
+ * Cluster mode (opt-in via NBC_WORKERS)
+ *
+ * The entry extracts the runtime tree once, then the primary forks N
+ * workers that each run start() against that same tree and bind the
+ * same port with SO_REUSEPORT — the kernel spreads connections across
+ * them. The primary serves nothing; it relays invalidations between
+ * workers, forwards SIGHUP and shutdown, and replaces crashed workers.
+ *
+ * Each worker holds its own Tier-2 route table and L1, so a page Next
+ * revalidates in one worker is broadcast to the others; without that,
+ * N-1 workers would keep serving the stale in-memory copy.
+ * ---------------------------------------------------------------- */
+
+const cluster = require("cluster");
+const INVALIDATE_MESSAGE = "nbc:invalidate";
+const SHUTDOWN_MESSAGE = "nbc:shutdown";
+// A crashed worker is replaced after RESPAWN_DELAY_MS, doubling with each
+// crash in a row up to RESPAWN_MAX_DELAY_MS. A worker that stayed up for
+// RESPAWN_STABLE_MS ends the streak; past CRASH_LOOP_LIMIT crashes in a
+// row the primary gives up and exits non-zero so its supervisor sees it.
+const RESPAWN_DELAY_MS = 1000;
+const RESPAWN_MAX_DELAY_MS = 30000;
+const RESPAWN_STABLE_MS = 60000;
+const CRASH_LOOP_LIMIT = 10;
+// Past the workers' own drain deadline, how long the primary still waits
+// for them to exit before it exits anyway.
+const PRIMARY_EXIT_GRACE_MS = 5000;
+
+/** NBC_SHUTDOWN_TIMEOUT (ms) — how long a drain may take. */
+function shutdownTimeoutMs() {
+  const ms = parseInt(process.env.NBC_SHUTDOWN_TIMEOUT, 10);
+  return Number.isFinite(ms) && ms >= 0 ? ms : 25000;
+}
+
+/**
+ * Workers to fork from NBC_WORKERS, or 0 to serve from this process.
+ * Unix sockets and systemd-passed sockets can't be shared through
+ * SO_REUSEPORT, so those keep a single process.
+ */
+function clusterSize() {
+  const n = parseInt(process.env.NBC_WORKERS, 10);
+  if (!(n > 1) || !cluster.isPrimary) return 0;
+  if (process.env.NBC_SOCKET || process.env.LISTEN_FDS) {
+    console.warn(
+      "next-bun-compile: NBC_WORKERS needs a TCP listener — serving from a single process"
+    );
+    return 0;
+  }
+  return n;
+}
+
+/** `respawn` overrides the backoff constants (tests). */
+function startPrimary(count, respawn = {}) {
+  const {
+    delayMs = RESPAWN_DELAY_MS,
+    maxDelayMs = RESPAWN_MAX_DELAY_MS,
+    stableMs = RESPAWN_STABLE_MS,
+    limit = CRASH_LOOP_LIMIT,
+  } = respawn;
+  let stopping = false;
+  let exitCode = 0;
+  let crashes = 0; // in a row
+  const workers = new Set();
+  const pending = new Set(); // respawn timers
+  const fork = () => {
+    const worker = cluster.fork();
+    const startedAt = Date.now();
+    workers.add(worker);
+    worker.on("message", (msg) => {
+      if (!msg || msg.type !== INVALIDATE_MESSAGE) return;
+      for (const other of workers) {
+        if (other !== worker && other.isConnected()) other.send(msg);
+      }
+    });
+    worker.on("exit", (code, signal) => {
+      workers.delete(worker);
+      if (stopping) {
+        if (workers.size === 0) process.exit(exitCode);
+        return;
+      }
+      if (Date.now() - startedAt >= stableMs) crashes = 0;
+      crashes++;
+      if (crashes > limit) {
+        console.error(
+          `next-bun-compile: worker ${worker.process.pid} exited (${signal || code}) — ${crashes} crashes in a row, giving up`
+        );
+        exitCode = 1;
+        shutdown();
+        return;
+      }
+      const delay = Math.min(delayMs * 2 ** (crashes - 1), maxDelayMs);
+      console.error(
+        `next-bun-compile: worker ${worker.process.pid} exited (${signal || code}) — restarting in ${delay}ms`
+      );
+      const timer = setTimeout(() => {
+        pending.delete(timer);
+        fork();
+      }, delay);
+      pending.add(timer);
+    });
+  };
+  for (let i = 0; i < count; i++) fork();
+
+  // Drain is each worker's own (see shutdown in start()). It's asked for
+  // over IPC rather than with a signal: a supervisor that signals the
+  // whole process group would otherwise land a second SIGTERM on each
+  // worker, which means "exit now".
+  // A worker that never finishes (wedged, or ignoring the request) must
+  // not hold the primary up past the point a supervisor would SIGKILL it.
+  const shutdown = () => {
+    if (stopping) process.exit(exitCode);
+    stopping = true;
+    for (const timer of pending) clearTimeout(timer);
+    pending.clear();
+    if (workers.size === 0) process.exit(exitCode);
+    for (const worker of workers) {
+      if (worker.isConnected()) worker.send({ type: SHUTDOWN_MESSAGE });
+    }
+    setTimeout(() => {
+      console.warn(
+        `next-bun-compile: ${workers.size} worker(s) still running past the shutdown deadline — exiting`
+      );
+      for (const worker of workers) worker.process.kill("SIGKILL");
+      process.exit(exitCode);
+    }, shutdownTimeoutMs() + PRIMARY_EXIT_GRACE_MS).unref();
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+  if (process.env.NBC_TLS_CERT) {
+    process.on("SIGHUP", () => {
+      for (const worker of workers) worker.process.kill("SIGHUP");
+    });
+  }
+  console.log(`   ▲ Next.js (next-bun-compile) — ${count} workers`);
+}
+
+/* ---------------------------------------------------------------- *
+ * Invalidation bus (opt-in via NBC_INVALIDATION_REDIS and/or
+ * NBC_INVALIDATION_WEBHOOK)
+ *
+ * The invalidation hook only sees what Next does in this process. With
+ * a shared cache handler (Redis) a revalidation on one pod must also
+ * reach every other pod's memory tiers, or they keep serving the copy
+ * it replaced. A bus carries each observed event to the other pods,
+ * which apply it locally; without one, a custom cacheHandler keeps
+ * prerendered pages with Next (Tier 2 and L1 off).
+ *
+ * A transport is { name, start(onEvent) → routes, publish(event),
+ * close() }. Events are { origin, tags, pathnameKey, purgeAll } — origin
+ * is this process, so its own echoes are ignored. Received events are applied,
+ * never re-published.
+ * ---------------------------------------------------------------- */
+
+const INVALIDATE_PATH = "/_nbc/invalidate";
+const BUS_ORIGIN = `${process.pid}-${Math.random().toString(36).slice(2)}`;
+
+function busEvent(raw) {
+  if (!raw || typeof raw !== "object") return null;
+  const { origin, tags, pathnameKey, purgeAll } = raw;
+  const tagList = Array.isArray(tags) ? tags : tags ? [tags] : [];
+  if (!tagList.every((t) => typeof t === "string")) return null;
+  if (pathnameKey != null && typeof pathnameKey !== "string") return null;
+  return {
+    origin,
+    tags: tagList,
+    pathnameKey: pathnameKey ?? null,
+    purgeAll: purgeAll === true,
+  };
+}
+
+/**
+ * Redis pub/sub. One connection publishes, a second one subscribes
+ * (a subscribed connection can't issue other commands). Connecting
+ * happens in the background: a Redis outage at boot costs cross-pod
+ * invalidation, not the listener.
+ */
+function redisTransport(url, channel) {
+  const publisher = new Bun.RedisClient(url);
+  let subscriber = null;
+  return {
+    name: "redis",
+    start(onEvent) {
+      (async () => {
+        subscriber = await publisher.duplicate();
+        await subscriber.subscribe(channel, (message) => {
+          try {
+            onEvent(JSON.parse(message));
+          } catch {}
+        });
+      })().catch((err) =>
+        console.error(
+          "next-bun-compile: invalidation bus (redis) failed to subscribe:",
+          err && err.message
+        )
+      );
+      return {};
+    },
+    publish(event) {
+      return publisher.publish(channel, JSON.stringify(event));
+    },
+    close() {
+      publisher.close();
+      if (subscriber) subscriber.close();
+    },
+  };
+}
+
+/**
+ * HTTP webhook. Events are POSTed to every peer URL (typically each
+ * pod's INVALIDATE_PATH, or a fan-out service in front of them), and
+ * received on INVALIDATE_PATH here. Both directions carry the shared
+ * token as a bearer credential.
+ */
+function webhookTransport(peers, token) {
+  return {
+    name: "webhook",
+    start(onEvent) {
+      return {
+        [INVALIDATE_PATH]: async (req) => {
+          if (req.method !== "POST") {
+            return new Response(null, { status: 405, headers: { Allow: "POST" } });
+          }
+          if (req.headers.get("authorization") !== `Bearer ${token}`) {
+            return new Response(null, { status: 401 });
+          }
+          let event;
+          try {
+            event = await req.json();
+          } catch {
+            return new Response(null, { status: 400 });
+          }
+          if (!busEvent(event)) return new Response(null, { status: 400 });
+          onEvent(event);
+          return new Response(null, { status: 204 });
+        },
+      };
+    },
+    publish(event) {
+      const body = JSON.stringify(event);
+      return Promise.all(
+        peers.map(async (url) => {
+          const res = await fetch(url, {
+            method: "POST",
+            headers: {
+              "content-type": "application/json",
+              authorization: `Bearer ${token}`,
+            },
+            body,
+            signal: AbortSignal.timeout(5000),
+          });
+          if (!res.ok) throw new Error(`${url} answered ${res.status}`);
+        })
+      );
+    },
+    close() {},
+  };
+}
+
+/** The transports the environment configures, or null for none. */
+function createInvalidationBus() {
+  const transports = [];
+  const redisUrl = process.env.NBC_INVALIDATION_REDIS;
+  if (redisUrl) {
+    transports.push(
+      redisTransport(redisUrl, process.env.NBC_INVALIDATION_CHANNEL || "nbc:invalidate")
+    );
+  }
+  const peers = (process.env.NBC_INVALIDATION_WEBHOOK || "")
+    .split(",")
+    .map((u) => u.trim())
+    .filter(Boolean);
+  if (peers.length > 0) {
+    const token = process.env.NBC_INVALIDATION_TOKEN;
+    if (token) {
+      transports.push(webhookTransport(peers, token));
+    } else {
+      console.warn(
+        "next-bun-compile: NBC_INVALIDATION_WEBHOOK needs NBC_INVALIDATION_TOKEN — webhook transport off"
+      );
+    }
+  }
+  if (transports.length === 0) return null;
+  return {
+    transports,
+    // onEvent(event, transportName) for every well-formed event another
+    // process published. Returns the routes the transports serve.
+    start(onEvent) {
+      const routes = {};
+      for (const t of transports) {
+        Object.assign(
+          routes,
+          t.start((raw) => {
+            const event = busEvent(raw);
+            if (event && event.origin !== BUS_ORIGIN) onEvent(event, t.name);
+          })
+        );
+      }
+      return routes;
+    },
+    publish(change) {
+      const event = { origin: BUS_ORIGIN, ...change };
+      for (const t of transports) {
+        Promise.resolve()
+          .then(() => t.publish(event))
+          .catch((err) =>
+            console.error(
+              `next-bun-compile: invalidation bus (${t.name}) publish failed:`,
+              err && err.message
+            )
+          );
+      }
+    },
+    close() {
+      for (const t of transports) t.close();
+    },
+  };
+}
+
+/* ---------------------------------------------------------------- *
+ * Admin API (opt-in via NBC_ADMIN_TOKEN)
+ *
+ * Inspect and purge the memory tiers without a redeploy:
+ *   GET  /_nbc/admin/tiers                 Tier-2 paths, L1 entries
+ *   POST /_nbc/admin/purge?path=/p         drop /p from Tier 2 and L1
+ *   POST /_nbc/admin/purge?all=1           drop every L1 entry
+ *   POST /_nbc/admin/revalidate?path=/p    revalidatePath, via Next
+ *   POST /_nbc/admin/revalidate?tag=t      revalidateTag, via Next
+ * Purges travel like any invalidation (sibling workers, the bus);
+ * revalidations go through Next's own incremental cache, so the
+ * cache handler and the hook see them exactly as an app-issued one.
+ *
+ * Every request needs the token in the x-nbc-admin-token header.
+ * ---------------------------------------------------------------- */
+
+const ADMIN_PREFIX = "/_nbc/admin/";
+
+/**
+ * ops is start()'s view of its own state: tiers() → snapshot,
+ * purgePath(p), purgeAll(), revalidate(tags) → Promise of the result,
+ * or of null while Next's incremental cache isn't available.
+ */
+function buildAdminRoutes(token, ops) {
+  const json = (body, status = 200) =>
+    Response.json(body, { status, headers: { "Cache-Control": "no-store" } });
+  const actions = {
+    tiers: { GET: () => ops.tiers() },
+    purge: {
+      POST: (url) => {
+        const p = url.searchParams.get("path");
+        if (p) return ops.purgePath(p);
+        if (url.searchParams.get("all") === "1") return ops.purgeAll();
+        return json({ error: "expected ?path=/p or ?all=1" }, 400);
+      },
+    },
+    revalidate: {
+      POST: async (url) => {
+        const p = url.searchParams.get("path");
+        const tag = url.searchParams.get("tag");
+        // revalidatePath is a revalidateTag on the path's implicit tag.
+        const tags = p ? [`_N_T_${p}`] : tag ? [tag] : null;
+        if (!tags) return json({ error: "expected ?path=/p or ?tag=t" }, 400);
+        const result = await ops.revalidate(tags);
+        return (
+          result ??
+          json(
+            {
+              error:
+                "Next's incremental cache hasn't been used in this process yet — retry once it has served a page",
+            },
+            503
+          )
+        );
+      },
+    },
+  };
+  return {
+    [ADMIN_PREFIX + "*"]: async (req) => {
+      if (req.headers.get("x-nbc-admin-token") !== token) {
+        return new Response(null, { status: 401 });
+      }
+      const url = new URL(req.url);
+      const action = actions[url.pathname.slice(ADMIN_PREFIX.length)];
+      if (!action) return json({ error: "unknown admin action" }, 404);
+      const handle = action[req.method];
+      if (!handle) {
+        return new Response(null, {
+          status: 405,
+          headers: { Allow: Object.keys(action).join(", ") },
+        });
+      }
+      try {
+        const out = await handle(url);
+        return out instanceof Response ? out : json(out);
+      } catch (err) {
+        return json({ error: err && err.message }, 500);
+      }
+    },
+  };
+}
+
+/* ---------------------------------------------------------------- *
+ * start()
+ * ---------------------------------------------------------------- */
+
+/**
+ * TLS material from NBC_TLS_CERT / NBC_TLS_KEY (PEM files), or null when
+ * the listener stays plain HTTP. NBC_TLS_CA is an optional intermediate
+ * chain, served after the leaf certificate. Read eagerly so a missing or
+ * unreadable file fails the boot (or the SIGHUP reload) rather than the
+ * first handshake.
+ */
+function loadTls() {
+  const certPath = process.env.NBC_TLS_CERT;
+  const keyPath = process.env.NBC_TLS_KEY;
+  if (!certPath && !keyPath) return null;
+  if (!certPath || !keyPath) {
+    throw new Error(
+      "next-bun-compile: NBC_TLS_CERT and NBC_TLS_KEY must be set together"
+    );
+  }
+  const chainPath = process.env.NBC_TLS_CA;
+  const cert = fs.readFileSync(certPath, "utf-8");
+  return {
+    cert: chainPath
+      ? `${cert.trimEnd()}\n${fs.readFileSync(chainPath, "utf-8")}`
+      : cert,
+    key: fs.readFileSync(keyPath, "utf-8"),
+  };
 }
 
 /**
- * Publish the PPR shell/postponed pairs a CDN may serve.
- *
- * `guards` is what keeps this honest. Handing a shell to a CDN moves the
- * response head to the edge, where it is committed before the origin has
- * rendered anything — so a Set-Cookie, a redirect, or a non-200 that the
- * request would have earned at the origin can no longer reach the client.
- * The CDN has already sent 200 + headers and can only append body bytes.
- *
- * The invariant: a route that can emit a Set-Cookie, a redirect, or a
- * non-200 status before or during its dynamic render must not have an
- * edge-served shell. Middleware coverage is the part of that we can see
- * from a build, and it is the part that bites hardest — an auth gate that
- * silently stops running is indistinguishable from no auth gate. It is
- * not the whole invariant: a `redirect()` or `notFound()` from inside a
- * dynamic hole fails the same way on a route no matcher covers. Those
- * routes must be kept off the CDN by hand (drop them from the worker's
- * route list); this only guarantees the statically-provable half.
+ * File descriptors handed over by systemd socket activation
+ * (sd_listen_fds(3)): LISTEN_FDS sockets starting at fd 3, valid only
+ * when LISTEN_PID names this process. The variables are consumed so a
+ * child process can't mistake the sockets for its own.
  */
-function buildShellRoutes(baseDir, guards = []) {
-  const raw = process.env.NBC_PPR_SHELL;
-  if (!raw) return {};
-  const covered = shellGuard(guards);
-  const token = raw === "1" || raw === "true" ? null : raw;
-  const appDir = path.join(baseDir, ".next", "server", "app");
-  let buildId = "";
+function systemdListenFds() {
+  const count = parseInt(process.env.LISTEN_FDS, 10);
+  const pid = parseInt(process.env.LISTEN_PID, 10);
+  if (!(count > 0) || pid !== process.pid) return [];
+  delete process.env.LISTEN_FDS;
+  delete process.env.LISTEN_PID;
+  delete process.env.LISTEN_FDNAMES;
+  return Array.from({ length: count }, (_, i) => 3 + i);
+}
+
+/**
+ * Accept on inherited listening sockets and splice each connection onto
+ * the loopback listener. Bun.serve can't adopt an existing socket (an
+ * `fd` option is ignored as of Bun 1.4); the relay is a byte pipe, so
+ * HTTP semantics (keep-alive, streaming, TLS when configured) are the
+ * real listener's.
+ */
+function relayListenFds(fds, targetPort) {
+  if (fds.length === 0) return [];
+  const net = require("net");
+  return fds.map((fd) => {
+    const relay = net.createServer((client) => relayConnection(client, targetPort()));
+    relay.listen({ fd });
+    return relay;
+  });
+}
+
+// Loopback source port of a relayed connection → the address the relay
+// accepted it from. Bun sees the relay as every request's peer;
+// resolveClient() looks the real one up here. Both ends live in this
+// process, so nothing outside it can claim an entry.
+const relayedPeers = new Map();
+
+/**
+ * Bytes only start flowing once the upstream side is connected and its
+ * port recorded, so the first request can't reach the listener before
+ * its peer is known.
+ */
+function relayConnection(client, port) {
+  const net = require("net");
+  const upstream = net.connect({ port, host: "127.0.0.1" });
+  let localPort = null;
+  const close = () => {
+    client.destroy();
+    upstream.destroy();
+  };
+  client.on("error", close);
+  upstream.on("error", close);
+  upstream.once("connect", () => {
+    localPort = upstream.localPort;
+    relayedPeers.set(localPort, client.remoteAddress);
+    client.pipe(upstream).pipe(client);
+  });
+  upstream.once("close", () => {
+    if (localPort != null) relayedPeers.delete(localPort);
+  });
+}
+
+// A socket file left by a crashed process makes bind fail with
+// EADDRINUSE. Only ever remove a socket — never a regular file someone
+// pointed NBC_SOCKET at by mistake.
+function removeStaleSocket(p) {
   try {
-    buildId = fs
-      .readFileSync(path.join(baseDir, ".next", "BUILD_ID"), "utf-8")
-      .trim();
+    if (fs.lstatSync(p).isSocket()) fs.unlinkSync(p);
   } catch {}
-  const routes = {};
-  let excluded = 0;
-  const walk = (dir) => {
-    let entries;
-    try {
-      entries = fs.readdirSync(dir, { withFileTypes: true });
-    } catch {
-      return;
-    }
-    for (const e of entries) {
-      const full = path.join(dir, e.name);
-      if (e.isDirectory()) {
-        walk(full);
-        continue;
-      }
-      if (!e.name.endsWith(".meta")) continue;
-      const htmlPath = full.slice(0, -".meta".length) + ".html";
-      const pair = readShellPair(full, htmlPath);
-      if (!pair) continue;
-      const rel = path
-        .relative(appDir, full)
-        .slice(0, -".meta".length)
-        .split(path.sep)
-        .join("/");
-      const routePath = rel === "index" ? "/" : "/" + rel;
-      // No route, so the endpoint 404s and the CDN passes through
-      // permanently — the origin keeps owning this response head.
-      if (covered(routePath)) {
-        excluded++;
-        continue;
-      }
-      routes[SHELL_PREFIX + rel] = shellRoute(
-        full,
-        htmlPath,
-        routePath,
-        buildId,
-        token,
-        pair
-      );
-    }
-  };
-  walk(appDir);
-  const count = Object.keys(routes).length;
-  if (count > 0) {
-    console.log(
-      `next-bun-compile: PPR shell endpoint serving ${count} route(s) from memory`
-    );
+}
+
+/** A user or group name (or numeric id) from the passwd/group database. */
+function lookupId(name, dbFile) {
+  if (/^\d+$/.test(name)) return Number(name);
+  let db = "";
+  try {
+    db = fs.readFileSync(dbFile, "utf-8");
+  } catch {}
+  for (const line of db.split("\n")) {
+    const [entry, , id] = line.split(":");
+    if (entry === name && /^\d+$/.test(id)) return Number(id);
   }
-  // Worth saying out loud: someone who put these routes in a CDN route
-  // list is otherwise left staring at 404s with no explanation.
-  if (excluded > 0) {
-    console.log(
-      `next-bun-compile: PPR shell endpoint withholding ${excluded} route(s) covered by proxy/routing rules — their response head belongs to the origin`
+  throw new Error(`next-bun-compile: unknown ${path.basename(dbFile) === "group" ? "group" : "user"} "${name}"`);
+}
+
+/**
+ * NBC_SOCKET_MODE (octal, e.g. 660) and NBC_SOCKET_OWNER (user[:group],
+ * names or ids) so a proxy running as another user can connect.
+ */
+function applySocketPermissions(p) {
+  const mode = process.env.NBC_SOCKET_MODE;
+  if (mode) fs.chmodSync(p, parseInt(mode, 8));
+  const owner = process.env.NBC_SOCKET_OWNER;
+  if (owner) {
+    const [user, group] = owner.split(":");
+    fs.chownSync(
+      p,
+      user ? lookupId(user, "/etc/passwd") : -1,
+      group ? lookupId(group, "/etc/group") : -1
     );
   }
-  return routes;
 }
 
-/* ---------------------------------------------------------------- *
- * start()
- * ---------------------------------------------------------------- */
+const LIVE_PATH = "/_nbc/live";
+const READY_PATH = "/_nbc/ready";
 
 /** Host this server can dial itself on, given the address it binds. */
 function selfOrigin(hostname) {
@@ -765,30 +2638,24 @@ async function start(opts) {
   const {
     assetMap,
     gzippedAssets,
+    precompressed,
     nextConfig,
     port,
     hostname,
     keepAliveTimeout,
     tier1 = [],
-    staticPages = [],
+    staticPages: builtPages = [],
     baseDir,
-    enableL1 = true,
+    customCacheHandler = false,
     shellGuards = [],
+    builtAt,
+    hooks: hooksModule,
+    webSocket: webSocketModule,
   } = opts;
   if (gzippedAssets) gzippedAssetSet = gzippedAssets;
-
-  // `next start` sets this on its listening handler; we replace that listener,
-  // so nothing did. Unset, a fetch action that redirect()s falls back to the
-  // request's initURL — `${x-forwarded-proto}://${hostname}:${port}` — which
-  // behind any TLS-terminating gateway is https://0.0.0.0:PORT. This listener
-  // terminates no TLS, so the self-fetch for the redirect target's RSC payload
-  // failed the handshake, the action returned an empty body, and the client
-  // fell back to a full page reload (blank screen until the document lands).
-  // Always http, and 0.0.0.0/:: means "every interface" — not an address to
-  // dial back on.
-  if (process.env.__NEXT_PRIVATE_ORIGIN === undefined) {
-    process.env.__NEXT_PRIVATE_ORIGIN = `http://${selfOrigin(hostname)}:${port}`;
-  }
+  precompressedAssets = precompressed ?? null;
+  builtLastModified = builtAt ? new Date(builtAt).toUTCString() : null;
+  trustedProxies = parseTrustedProxies(process.env.NBC_TRUSTED_PROXIES);
 
   // Next boots lazily on the first Tier-3 request; static tiers serve
   // immediately. This keeps time-to-first-static-byte low while Next's
@@ -799,6 +2666,27 @@ async function start(opts) {
   const nextModule = (rel) =>
     require(path.join(baseDir, ".next/node_modules/next", rel));
 
+  // Revalidation events are observed in this process only. A custom
+  // cacheHandler is typically shared between pods, so the memory page
+  // tiers need a bus carrying the other pods' events — without one,
+  // prerendered pages stay with Next, which reads through the handler.
+  const bus = createInvalidationBus();
+  const memoryPages = !customCacheHandler || !!bus;
+  if (!memoryPages) {
+    console.log(
+      "next-bun-compile: custom cacheHandler without an invalidation bus — prerendered pages stay with Next (Tier 2 and L1 off)"
+    );
+  }
+  const staticPages = memoryPages ? builtPages : [];
+
+  // Readiness inputs. start() only runs once extractAssets() has resolved,
+  // so extraction is done by construction; the Next handler and the
+  // invalidation hook come up later (lazily, on first need).
+  let handler = null;
+  let handlerError = null;
+  let hookState = "pending"; // → "installed" | "degraded"
+  let draining = false;
+
   let handlerPromise = null;
   const getHandlerOnce = () => {
     if (!handlerPromise) {
@@ -823,11 +2711,22 @@ async function start(opts) {
         installInvalidationHook();
         return requestHandler;
       })();
+      handlerPromise.then(
+        (h) => {
+          handler = h;
+        },
+        (err) => {
+          handlerError = err;
+        }
+      );
     }
     return handlerPromise;
   };
-  let handler = null;
-  const bridge = createBridge(() => handler);
+  // Everything shutdown waits for: bridge requests until their body ends,
+  // L1 copies until they're stored.
+  const inflight = createTracker();
+  const limits = requestLimits();
+  const bridge = createBridge(() => handler, inflight, limits);
   const bridgeLazy = async (req, server) => {
     if (!handler) handler = await getHandlerOnce();
     return bridge(req, server);
@@ -842,15 +2741,46 @@ async function start(opts) {
    * the patched cache handler (set on regeneration, revalidateTag on
    * on-demand invalidation) and drops the L1 entry, and the TTL never
    * exceeds the response's own s-maxage.
+   *
+   * Bounded by bytes, not entries: NBC_L1_MAX_BYTES (default 64 MiB)
+   * across all entries, least recently used out first, and
+   * NBC_L1_MAX_ENTRY_BYTES (default: the whole budget) per response.
+   * NBC_L1=off turns it off.
    * ------------------------------------------------------------ */
-  const L1_MAX_ENTRIES = 256;
-  const l1 = new Map(); // key → { body, status, headers, expires }
+  const l1MaxBytes = parseBytes(process.env.NBC_L1_MAX_BYTES, 64 * 1024 ** 2);
+  const l1MaxEntryBytes = Math.min(
+    parseBytes(process.env.NBC_L1_MAX_ENTRY_BYTES, l1MaxBytes),
+    l1MaxBytes
+  );
+  // key → { body, status, headers, expires, tags, size }
+  const l1 = createLru(l1MaxBytes, (key, reason) =>
+    metrics.inc("nbc_l1_evictions_total", { reason })
+  );
+  const l1Evict = (key, reason) => l1.delete(key, reason);
   const l1DropPath = (p) => {
-    for (const key of l1.keys()) {
-      if (key.startsWith(p + "|")) l1.delete(key);
+    for (const [key] of l1) {
+      if (key.startsWith(p + "|")) l1Evict(key, "invalidated");
+    }
+  };
+  // A tag revalidation drops only the entries whose render read a cache
+  // entry carrying that tag. Next strips x-next-cache-tags from the
+  // response before it reaches the bridge, so the tags are collected as
+  // the render reads the incremental cache (see the get() hook): each
+  // cacheable request runs in an l1Tags context holding its own set. An
+  // entry that recorded none (served without a cache read we could see)
+  // has unknown tags and goes on every tag revalidation.
+  const l1Tags = new AsyncLocalStorage();
+  const l1DropTag = (tag) => {
+    for (const [key, entry] of l1) {
+      if (!entry.tags || entry.tags.has(tag)) l1Evict(key, "tag");
     }
   };
-  let l1Enabled = enableL1; // also turned off if the hook can't install
+  const l1Refuse = (reason) => {
+    metrics.inc("nbc_l1_refusals_total", { reason });
+    return 0;
+  };
+  // Also turned off if the hook can't install.
+  let l1Enabled = memoryPages && !/^(off|0|false)$/i.test(process.env.NBC_L1 || "");
   // Middleware owns the response head on the routes it covers, and it runs
   // upstream of the render this cache stores. Whatever it attaches — a
   // Set-Cookie, an x-user-id, a CSRF token — belongs to one caller, and the
@@ -876,9 +2806,12 @@ async function start(opts) {
     const cookie = req.headers.get("cookie");
     if (cookie && cookie.includes("__prerender_bypass")) return null;
     const url = new URL(req.url);
-    if (l1ProxyCovered(url.pathname)) return null;
+    if (l1ProxyCovered(url.pathname)) {
+      l1Refuse("proxy-covered");
+      return null;
+    }
     const rsc = req.headers.has("rsc") || url.searchParams.has("_rsc");
-    return `${url.pathname}|${rsc ? "r" : "h"}|${acceptsGzip(req) ? "z" : "i"}`;
+    return `${url.pathname}|${rsc ? "r" : "h"}|${encodingKey(req)}`;
   };
   const l1Ttl = (res) => {
     if (res.status !== 200) return 0;
@@ -892,11 +2825,11 @@ async function start(opts) {
     // head is shared-safe. Refuse the entry outright rather than stripping the
     // header: a response that needed to set a cookie has per-requester state,
     // and serving its body while dropping the cookie silently breaks it.
-    if (res.headers.has("set-cookie")) return 0;
+    if (res.headers.has("set-cookie")) return l1Refuse("set-cookie");
     // The key encodes exactly three dimensions: pathname, RSC-vs-HTML, and
-    // gzip-vs-identity. A response that Vary's on anything else has variants
-    // this key cannot tell apart, so one caller's variant would be served to
-    // another. Fail closed on any dimension we don't provably key on — a
+    // the client's acceptable content codings. A response that Vary's on
+    // anything else has variants this key cannot tell apart, so one
+    // caller's variant would be served to another. Fail closed on any dimension we don't provably key on — a
     // future Next version adding a Vary then degrades to "not cached" rather
     // than to "cross-served", and an app that adds its own (a locale, a device
     // class, Cookie) is safe by default instead of quietly broken.
@@ -912,7 +2845,7 @@ async function start(opts) {
           f === "next-router-state-tree" ||
           f === "next-router-prefetch" ||
           f === "next-router-segment-prefetch";
-        if (!keyed && !excluded) return 0;
+        if (!keyed && !excluded) return l1Refuse("vary");
       }
     }
     if (res.headers.get("x-nextjs-cache") !== "HIT") return 0;
@@ -922,43 +2855,85 @@ async function start(opts) {
     return Math.min(Number(m[1]), 31536000) * 1000;
   };
 
+  // Unknown (or withheld) shell routes fall through to Next, which
+  // normally 404s them; count whatever it actually answered.
+  const countShellFallthrough = (req, res) => {
+    if (
+      metrics.enabled &&
+      shellEnabled &&
+      new URL(req.url).pathname.startsWith(SHELL_PREFIX)
+    ) {
+      metrics.inc("nbc_shell_responses_total", { status: res.status });
+    }
+    return res;
+  };
+
   const fetchWithL1 = async (req, server) => {
     const key = l1Cacheable(req);
     if (key) {
       const hit = l1.get(key);
       if (hit) {
         if (hit.expires > Date.now()) {
+          metrics.inc("nbc_l1_lookups_total", { result: "hit" });
+          servedBy.set(req, "l1");
+          // Revalidate against the validators Next stamped on the render.
+          const etag = hit.headers.get("etag");
+          const lastModified = hit.headers.get("last-modified");
+          const precondition =
+            (etag || lastModified) &&
+            preconditionStatus(req, etag, lastModified);
+          if (precondition) {
+            return conditionalResponse(precondition, hit.headers);
+          }
           return new Response(hit.body, {
             status: hit.status,
             headers: hit.headers,
           });
         }
-        l1.delete(key);
+        l1Evict(key, "expired");
       }
+      metrics.inc("nbc_l1_lookups_total", { result: "miss" });
     }
-    const res = await bridgeLazy(req, server);
-    if (!key || res.body == null) return res;
+    if (!key) return countShellFallthrough(req, await bridgeLazy(req, server));
+    const tags = new Set();
+    const res = countShellFallthrough(
+      req,
+      await l1Tags.run(tags, () => bridgeLazy(req, server))
+    );
+    if (res.body == null) return res;
     const ttl = l1Ttl(res);
     if (ttl === 0) return res;
+    // Known up front to be over the cap: don't buffer a copy at all.
+    if (Number(res.headers.get("content-length")) > l1MaxEntryBytes) {
+      l1Refuse("too-large");
+      return res;
+    }
     const [toClient, toCache] = res.body.tee();
     // Buffer the copy off the hot path; store only once complete.
-    new Response(toCache)
+    const buffering = new Response(toCache)
       .arrayBuffer()
       .then((buf) => {
-        if (l1.size >= L1_MAX_ENTRIES) {
-          l1.delete(l1.keys().next().value); // drop oldest insertion
-        }
+        if (buf.byteLength > l1MaxEntryBytes) return l1Refuse("too-large");
         const headers = new Headers(res.headers);
+        for (const t of splitTags(headers.get("x-next-cache-tags"))) tags.add(t);
         headers.delete("transfer-encoding");
         headers.set("content-length", String(buf.byteLength));
+        // Header bytes count against the budget too; per-entry object
+        // overhead is noise next to a rendered page.
+        let size = buf.byteLength;
+        for (const [k, v] of headers) size += k.length + v.length;
         l1.set(key, {
           body: new Uint8Array(buf),
           status: res.status,
           headers,
           expires: Date.now() + ttl,
+          tags: tags.size > 0 ? tags : null,
+          size,
         });
       })
-      .catch(() => {});
+      .catch(() => {})
+      .finally(() => inflight.done(buffering));
+    inflight.add(buffering);
     return new Response(toClient, {
       status: res.status,
       statusText: res.statusText,
@@ -966,8 +2941,39 @@ async function start(opts) {
     });
   };
 
+  // Before the tiers are built: whether Tier-1 static routes need to be
+  // countable handlers depends on it.
+  const metricsRoute = buildMetricsRoute();
+  const shellEnabled = !!process.env.NBC_PPR_SHELL;
+  let accessLog = process.env.NBC_ACCESS_LOG || null;
+  if (accessLog && !ACCESS_LOG_FORMATS.includes(accessLog)) {
+    console.warn(
+      `next-bun-compile: NBC_ACCESS_LOG=${accessLog} not recognized (expected ${ACCESS_LOG_FORMATS.join(" or ")}) — access log off`
+    );
+    accessLog = null;
+  }
+  const hooks = loadHooks(hooksModule);
+  const ws = loadWebSocket(webSocketModule);
+  const rateRules = parseRateLimits(process.env.NBC_RATE_LIMIT);
+  const limiter =
+    rateRules.length > 0
+      ? createRateLimiter(rateRules, process.env.NBC_RATE_LIMIT_KEY || null)
+      : null;
+  if (limiter && process.env.NBC_RATE_LIMIT_KEY && !trustedProxies) {
+    console.warn(
+      "next-bun-compile: NBC_RATE_LIMIT_KEY needs NBC_TRUSTED_PROXIES (the proxy that sets the header) — keying by client address"
+    );
+  }
+
   const [tier1Routes, tier2Routes] = await Promise.all([
-    buildTier1Routes(tier1, assetMap, bridgeLazy),
+    buildTier1Routes(
+      tier1,
+      assetMap,
+      bridgeLazy,
+      // Bun's native static dispatch would answer before the limiter
+      // and the hooks.
+      metrics.enabled || !!accessLog || !!limiter || !!hooks
+    ),
     buildTier2Routes(
       staticPages,
       assetMap,
@@ -976,12 +2982,140 @@ async function start(opts) {
     ),
   ]);
 
+  /* ------------------------------------------------------------ *
+   * Probes: /_nbc/live and /_nbc/ready
+   *
+   * Liveness only says the process is answering. Readiness says this
+   * process can serve every route the way `next start` would: assets
+   * extracted, Next's handler initialized, and the invalidation hook
+   * either installed or deliberately degraded (memory page tiers off).
+   * Probing a user route instead proves none of that — and a probe is
+   * what boots Next here, so the first one kicks off the lazy init
+   * rather than waiting for a Tier-3 request. Draining fails readiness
+   * so the orchestrator stops routing before the listener goes away.
+   * ------------------------------------------------------------ */
+  const probe = (ok, body) =>
+    Response.json(body, {
+      status: ok ? 200 : 503,
+      headers: { "Cache-Control": "no-store" },
+    });
+  const readiness = () => {
+    const checks = {
+      extracted: true,
+      nextHandler: handler
+        ? "ready"
+        : handlerError
+          ? "failed"
+          : handlerPromise
+            ? "initializing"
+            : "idle",
+      invalidationHook: hookState,
+    };
+    if (draining) return { ready: false, reason: "draining", checks };
+    if (handlerError) {
+      return {
+        ready: false,
+        reason: `Next handler failed to initialize: ${handlerError.message}`,
+        checks,
+      };
+    }
+    if (!handler || hookState === "pending") {
+      getHandlerOnce();
+      return { ready: false, reason: "Next handler initializing", checks };
+    }
+    return {
+      ready: true,
+      reason:
+        hookState === "degraded"
+          ? "ready — invalidation hook unavailable, memory page tiers disabled"
+          : "ready",
+      checks,
+    };
+  };
+  const probeRoutes = {
+    [LIVE_PATH]: () =>
+      probe(true, { status: "live", reason: "process is serving requests" }),
+    [READY_PATH]: () => {
+      const { ready, reason, checks } = readiness();
+      return probe(ready, {
+        status: ready ? "ready" : "not ready",
+        reason,
+        checks,
+      });
+    },
+  };
+
+  const shellRoutes = buildShellRoutes(baseDir, shellGuards);
+  // Reads and changes the same route table, tier2Paths and L1 every
+  // request is served from. In cluster mode the snapshot is the worker
+  // that answered; purges reach them all.
+  const adminRoutes = process.env.NBC_ADMIN_TOKEN
+    ? buildAdminRoutes(process.env.NBC_ADMIN_TOKEN, {
+        tiers: () => ({
+          worker: cluster.isWorker ? cluster.worker.id : null,
+          tier2: Array.from(tier2Paths).sort(),
+          l1: {
+            enabled: l1Enabled,
+            bytes: l1.bytes,
+            budget: l1.maxBytes,
+            entries: Array.from(l1, ([key, entry]) => {
+              const [pathname, body, codings] = key.split("|");
+              return {
+                key,
+                path: pathname,
+                rsc: body === "r",
+                acceptEncoding: codings ? codings.split(",") : [],
+                status: entry.status,
+                bytes: entry.size,
+                expires: new Date(entry.expires).toISOString(),
+                tags: entry.tags ? Array.from(entry.tags) : null,
+              };
+            }),
+          },
+        }),
+        purgePath: (p) => {
+          const tier2 = tier2Paths.has(p);
+          const before = l1.size;
+          broadcastInvalidation({ tags: [], pathnameKey: p });
+          return { path: p, tier2, l1: before - l1.size };
+        },
+        purgeAll: () => {
+          const before = l1.size;
+          broadcastInvalidation({ tags: [], pathnameKey: null, purgeAll: true });
+          return { l1: before };
+        },
+        revalidate: async (tags) => {
+          // Borrowed from Next's own instance (see the get() hook), so it
+          // exists once Next has read its cache in this process.
+          if (!handler) await getHandlerOnce();
+          if (!incrementalCache) return null;
+          await incrementalCache.revalidateTag(tags);
+          return { revalidated: tags };
+        },
+      })
+    : {};
   const routes = {
     ...tier1Routes,
     ...tier2Routes,
-    ...buildShellRoutes(baseDir, shellGuards),
+    ...shellRoutes,
+    ...probeRoutes,
+    ...metricsRoute,
+    ...(bus && bus.start((event, via) => receiveInvalidation(event, via))),
+    ...adminRoutes,
   };
+  // The tier each route answers from memory as, for the access log.
+  // Probe and metrics routes are deliberately absent: a probe every few
+  // seconds would drown out the traffic the log is for.
+  const routeTier = new Map([
+    ...tier1.map((t) => [t.urlPath, t.kind]),
+    ...Object.keys(tier2Routes).map((p) => [p, "page"]),
+    ...Object.keys(shellRoutes).map((p) => [p, "shell"]),
+  ]);
   const tier2Paths = new Set(Object.keys(tier2Routes));
+  metrics.gauge("nbc_l1_entries", () => l1.size);
+  metrics.gauge("nbc_l1_bytes", () => l1.bytes);
+  metrics.gauge("nbc_l1_budget_bytes", () => (l1Enabled ? l1.maxBytes : 0));
+  metrics.gauge("nbc_tier2_pages", () => tier2Paths.size);
 
   // Bun's idleTimeout is in seconds, capped at 255. Default to the max —
   // the Node server this replaces had no idle deadline, and slow streamed
@@ -989,19 +3123,206 @@ async function start(opts) {
   const idleTimeout = Number.isFinite(keepAliveTimeout)
     ? Math.min(255, Math.ceil(keepAliveTimeout / 1000))
     : 255;
-  const serveOptions = () => ({
-    port,
-    hostname,
+  const logged = (table) => {
+    const out = {};
+    for (const [p, h] of Object.entries(table)) {
+      const tier = routeTier.get(p);
+      out[p] = tier ? withAccessLog(h, tier, accessLog) : h;
+    }
+    return out;
+  };
+  // Innermost to outermost: hooks, limiter, access log — a 429 never
+  // reaches the hooks, and both show up in the log.
+  const hooked = (table) => {
+    if (!hooks) return table;
+    const out = { ...table };
+    for (const [p, tier] of routeTier) {
+      if (typeof out[p] === "function") out[p] = withHooks(out[p], tier, hooks);
+    }
+    return out;
+  };
+  const limited = (table) => (limiter ? limiter.routes(table) : { ...table });
+  const fetchHooked = hooks ? withHooks(fetchWithL1, "next", hooks) : fetchWithL1;
+  const fetchLimited = limiter ? limiter.fetch(fetchHooked) : fetchHooked;
+  const fetchLogged = accessLog
+    ? withAccessLog(fetchLimited, "next", accessLog)
+    : fetchLimited;
+  const fetchFinal = ws ? withWebSocket(fetchLogged, ws, limiter, hooks) : fetchLogged;
+  const handlers = () => ({
     ...(idleTimeout !== undefined && { idleTimeout }),
-    routes: { ...routes },
-    fetch: fetchWithL1,
+    // Part of every serve/reload: a reload without it would leave the
+    // upgraded sockets with no handlers.
+    ...(ws && { websocket: ws.handlers }),
+    // Bun refuses bodies over 128 MiB by default; a larger configured
+    // limit has to raise that for the bridge to be the one enforcing it.
+    ...(limits.ceiling < Infinity &&
+      limits.ceiling > 128 * 1024 ** 2 && {
+        maxRequestBodySize: limits.ceiling,
+      }),
+    routes: accessLog
+      ? logged(limited(hooked(routes)))
+      : limited(hooked(routes)),
+    fetch: fetchFinal,
     error(err) {
       console.error(err);
       return new Response("Internal Server Error", { status: 500 });
     },
   });
+  // Where the listener binds. NBC_SOCKET puts it on a unix socket (no TCP
+  // port at all); under systemd socket activation the inherited sockets
+  // are relayed to a loopback listener (see relayListenFds). Otherwise
+  // PORT/HOSTNAME as usual.
+  const unixPath = process.env.NBC_SOCKET || null;
+  const listenFds = unixPath ? [] : systemdListenFds();
+  const address = () =>
+    unixPath
+      ? { unix: unixPath }
+      : listenFds.length > 0
+        ? { port: 0, hostname: "127.0.0.1" }
+        : { port, hostname };
+  // Cluster workers bind SO_REUSEPORT to share the port at all. Nothing
+  // else does: a second instance started by mistake gets EADDRINUSE rather
+  // than silently taking half the connections.
+  let tlsMaterial = loadTls();
+  const reusePort = !unixPath && cluster.isWorker;
+  const serveOptions = () => ({
+    ...address(),
+    ...(tlsMaterial && { tls: tlsMaterial }),
+    ...(reusePort && { reusePort: true }),
+    ...handlers(),
+  });
+
+  if (unixPath) removeStaleSocket(unixPath);
+  let server = Bun.serve(serveOptions());
+  if (unixPath) applySocketPermissions(unixPath);
+  const relays = relayListenFds(listenFds, () => server.port);
+
+  // `next start` sets this on its listening handler; we replace that listener,
+  // so nothing did. Unset, a fetch action that redirect()s falls back to the
+  // request's initURL — `${x-forwarded-proto}://${hostname}:${port}` — which
+  // behind any TLS-terminating gateway is https://0.0.0.0:PORT. A plain
+  // listener terminates no TLS, so the self-fetch for the redirect target's
+  // RSC payload failed the handshake, the action returned an empty body, and
+  // the client fell back to a full page reload (blank screen until the
+  // document lands). 0.0.0.0/:: means "every interface" — not an address to
+  // dial back on.
+  // When this listener does terminate TLS, its certificate is issued for the
+  // public name, not for localhost, so a self-fetch over https would fail
+  // verification just the same — and a unix socket has no URL to dial at
+  // all. Those self-fetches get a plain loopback listener of their own: same
+  // routes, reachable only from this host. Set before any request can be
+  // handled: nothing runs between binding and here.
+  let selfServer = null;
+  if (process.env.__NEXT_PRIVATE_ORIGIN === undefined) {
+    if (tlsMaterial || unixPath) {
+      selfServer = Bun.serve({ port: 0, hostname: "127.0.0.1", ...handlers() });
+      process.env.__NEXT_PRIVATE_ORIGIN = `http://127.0.0.1:${selfServer.port}`;
+    } else if (listenFds.length > 0) {
+      process.env.__NEXT_PRIVATE_ORIGIN = `http://127.0.0.1:${server.port}`;
+    } else {
+      process.env.__NEXT_PRIVATE_ORIGIN = `http://${selfOrigin(hostname)}:${server.port}`;
+    }
+  }
+
+  // Listeners replaced by a certificate reload that still hold open
+  // connections (and the WebSockets among them) until they drain.
+  const retired = new Set();
 
-  const server = Bun.serve(serveOptions());
+  // Publishing from inside Next (see publish() in src/websocket.ts) reaches
+  // the current listener and the retired ones' subscribers alike — `server`
+  // is replaced on a certificate reload.
+  if (ws) {
+    globalThis[SERVER_KEY] = {
+      publish: (topic, data, compress) => {
+        let sent = server.publish(topic, data, compress);
+        for (const old of retired) sent += Math.max(0, old.publish(topic, data, compress));
+        return sent;
+      },
+      subscriberCount: (topic) => {
+        let count = server.subscriberCount(topic);
+        for (const old of retired) count += old.subscriberCount(topic);
+        return count;
+      },
+    };
+  }
+
+  // Route-table changes (invalidation, the hook degrading) must reach
+  // every listener serving the routes.
+  const reloadRoutes = () => {
+    server.reload(serveOptions());
+    if (selfServer) selfServer.reload({ ...handlers() });
+  };
+
+  // Plain-HTTP companion listener that only redirects to the TLS one.
+  const redirectPort = parseInt(process.env.NBC_HTTP_REDIRECT_PORT, 10);
+  const redirectServer =
+    tlsMaterial && !unixPath && Number.isFinite(redirectPort)
+      ? Bun.serve({
+          port: redirectPort,
+          hostname,
+          reusePort: cluster.isWorker,
+          fetch(req) {
+            const url = new URL(req.url);
+            url.protocol = "https:";
+            url.port = server.port === 443 ? "" : String(server.port);
+            return Response.redirect(url.href, 308);
+          },
+        })
+      : null;
+
+  // SIGHUP re-reads the certificate files. server.reload() swaps handlers
+  // but not the TLS context a listener was bound with (Bun 1.4 keeps
+  // serving the old certificate), so the new material goes to a
+  // replacement listener: the old one stops accepting — it closes its
+  // socket synchronously, so the port is free within the same tick — and
+  // drains like it would on shutdown while the replacement binds. The new
+  // material is tried on a throwaway loopback listener first, so bad or
+  // half-written files keep the current certificate serving. A unix socket
+  // takes a restart.
+  const reloadCertificates = async () => {
+    if (unixPath) {
+      console.warn(
+        "next-bun-compile: certificate reload needs a TCP listener — restart to pick up new certificates on a unix socket"
+      );
+      return;
+    }
+    let material;
+    try {
+      material = loadTls();
+      Bun.serve({
+        port: 0,
+        hostname: "127.0.0.1",
+        tls: material,
+        fetch: () => new Response(null, { status: 503 }),
+      }).stop(true);
+    } catch (err) {
+      console.error(
+        "next-bun-compile: certificate reload failed, keeping the current certificate:",
+        err && err.message
+      );
+      return;
+    }
+    const previous = server;
+    const boundPort = previous.port; // reads 0 once stopped
+    const drained = previous.stop();
+    const current = tlsMaterial;
+    tlsMaterial = material;
+    try {
+      server = Bun.serve({ ...serveOptions(), port: boundPort });
+      console.log("next-bun-compile: TLS certificate reloaded");
+    } catch (err) {
+      tlsMaterial = current;
+      server = Bun.serve({ ...serveOptions(), port: boundPort });
+      console.error(
+        "next-bun-compile: certificate reload failed, keeping the current certificate:",
+        err && err.message
+      );
+    }
+    retired.add(previous);
+    await drained;
+    retired.delete(previous);
+  };
+  if (tlsMaterial) process.on("SIGHUP", reloadCertificates);
 
   // Invalidation: patch the IncrementalCache wrapper in-process — every
   // revalidateTag/revalidatePath and fresh cache write flows through it
@@ -1021,6 +3342,7 @@ async function start(opts) {
     if (!tier2Paths.has(p)) return false;
     tier2Paths.delete(p);
     delete routes[p];
+    metrics.inc("nbc_page_invalidations_total");
     console.log(
       `next-bun-compile: ${p} revalidated — serving via Next from now on`
     );
@@ -1034,17 +3356,44 @@ async function start(opts) {
   // These routes never regenerate at runtime (revalidate:false, no set()),
   // so dropping the entry left it dropped until reboot — forcing an edge
   // worker onto origin RTT for the life of the process.
-  const onInvalidate = (tags, pathnameKey) => {
+  //
+  // A change is { tags, pathnameKey, purgeAll }: what the hook observed
+  // (or an admin purge), in the form it travels to sibling workers and
+  // other pods.
+  const relayToWorkers = (change) => {
+    if (cluster.isWorker) process.send({ type: INVALIDATE_MESSAGE, ...change });
+  };
+  const broadcastInvalidation = (change) => {
+    applyInvalidation(change);
+    relayToWorkers(change);
+    if (bus) bus.publish(change);
+  };
+  const onInvalidate = (tags, pathnameKey) =>
+    broadcastInvalidation({
+      tags,
+      pathnameKey: typeof pathnameKey === "string" ? pathnameKey : null,
+    });
+  // Another pod's event. Every worker holds its own Redis subscription,
+  // but a webhook POST lands on just one of them.
+  const receiveInvalidation = (event, via) => {
+    const { tags, pathnameKey, purgeAll } = event;
+    try {
+      applyInvalidation({ tags, pathnameKey, purgeAll });
+    } catch {}
+    if (via === "webhook") relayToWorkers({ tags, pathnameKey, purgeAll });
+  };
+  const applyInvalidation = ({ tags, pathnameKey, purgeAll }) => {
     let changed = false;
+    if (purgeAll) {
+      for (const [key] of l1) l1Evict(key, "purged");
+    }
     if (typeof pathnameKey === "string") {
       changed = dropPage(pathnameKey) || changed;
       l1DropPath(pathnameKey); // regeneration → refresh on next request
     }
     for (const tag of Array.isArray(tags) ? tags : tags ? [tags] : []) {
       if (typeof tag !== "string") continue;
-      // L1 entries don't carry tag metadata (stripped upstream); a tag
-      // revalidation clears the whole L1 — it refills request by request.
-      l1.clear();
+      l1DropTag(tag);
       for (const p of tagIndex.get(tag) ?? []) changed = dropPage(p) || changed;
       if (tag.startsWith("_N_T_")) {
         const p = tag.slice("_N_T_".length);
@@ -1052,7 +3401,7 @@ async function start(opts) {
         changed = dropPage(norm) || changed;
       }
     }
-    if (changed) server.reload(serveOptions());
+    if (changed) reloadRoutes();
   };
   const installInvalidationHook = () => {
     try {
@@ -1067,9 +3416,20 @@ async function start(opts) {
       // shared cache handler never calls set(), and its endpoint would
       // otherwise never see a pair regenerated on another pod.
       const origGet = IncCache.prototype.get;
+      // It's also where an L1-bound render's cache tags are seen.
       IncCache.prototype.get = function (...args) {
         incrementalCache = this;
-        return origGet.apply(this, args);
+        const result = origGet.apply(this, args);
+        const seen = l1Tags.getStore();
+        if (seen) {
+          Promise.resolve(result).then(
+            (entry) => {
+              for (const t of cacheEntryTags(entry, args[1])) seen.add(t);
+            },
+            () => {}
+          );
+        }
+        return result;
       };
       const origRevalidateTag = IncCache.prototype.revalidateTag;
       IncCache.prototype.revalidateTag = function (...args) {
@@ -1087,6 +3447,7 @@ async function start(opts) {
         } catch {}
         return origSet.apply(this, [key, ...rest]);
       };
+      hookState = "installed";
     } catch (err) {
       // Fail safe: without revalidation events the memory tiers could go
       // stale — hand everything back to Next.
@@ -1095,6 +3456,7 @@ async function start(opts) {
         err && err.message
       );
       l1Enabled = false;
+      hookState = "degraded";
       const shellKeys = Object.keys(routes).filter((k) =>
         k.startsWith(SHELL_PREFIX)
       );
@@ -1104,36 +3466,152 @@ async function start(opts) {
           tier2Paths.delete(p);
           delete routes[p];
         }
-        server.reload(serveOptions());
+        reloadRoutes();
       }
     }
   };
 
-  const shutdown = async () => {
+  // Drain on SIGTERM/SIGINT: stop accepting connections, let in-flight
+  // bridge requests (streamed SSR, PPR resumes) and L1 buffering finish,
+  // then exit. Exiting straight away cut every streamed response off on a
+  // rolling deploy. Past NBC_SHUTDOWN_TIMEOUT (ms) the remaining
+  // connections are hard-closed; the default stays under the 30s grace
+  // period Kubernetes and systemd give before SIGKILL, so the abandoned
+  // count still gets logged. A second signal exits immediately.
+  const shutdownTimeout = shutdownTimeoutMs();
+  const shutdown = async (signal) => {
+    if (draining) process.exit(0);
+    draining = true;
+    console.log(
+      `next-bun-compile: ${signal} received — draining ${inflight.size} in-flight request(s) (deadline ${shutdownTimeout}ms)`
+    );
+    let timer;
     try {
-      await server.stop();
+      for (const relay of relays) relay.close();
+      if (limiter) limiter.close();
+      const drained = Promise.all([
+        server.stop(),
+        ...[...retired].map((old) => old.stop()),
+        selfServer && selfServer.stop(),
+        redirectServer && redirectServer.stop(),
+        inflight.idle(),
+      ]).then(() => true);
+      const deadline = new Promise((resolve) => {
+        timer = setTimeout(() => resolve(false), shutdownTimeout);
+      });
+      if (!(await Promise.race([drained, deadline]))) {
+        console.warn(
+          `next-bun-compile: shutdown deadline passed — abandoning ${inflight.size} in-flight request(s)`
+        );
+        await Promise.all([
+          server.stop(true),
+          selfServer && selfServer.stop(true),
+          redirectServer && redirectServer.stop(true),
+          ...[...retired].map((old) => old.stop(true)),
+        ]);
+      }
     } finally {
+      clearTimeout(timer);
+      if (bus) bus.close();
       process.exit(0);
     }
   };
-  process.on("SIGINT", shutdown);
-  process.on("SIGTERM", shutdown);
+  process.on("SIGINT", () => shutdown("SIGINT"));
+  process.on("SIGTERM", () => shutdown("SIGTERM"));
+
+  // Cluster worker: invalidations raised in sibling workers, relayed by
+  // the primary, and the primary's request to drain.
+  if (cluster.isWorker) {
+    process.on("message", (msg) => {
+      if (!msg) return;
+      if (msg.type === INVALIDATE_MESSAGE) {
+        try {
+          applyInvalidation(msg);
+        } catch {}
+      } else if (msg.type === SHUTDOWN_MESSAGE && !draining) {
+        shutdown("shutdown request");
+      }
+    });
+  }
+
+  // What start() hands back follows `server` across certificate reloads —
+  // the listener it was first bound as is stopped by the first one.
+  const handle = new Proxy(server, {
+    get(_, key) {
+      const value = server[key];
+      return typeof value === "function" ? value.bind(server) : value;
+    },
+  });
 
+  const local = unixPath
+    ? `unix:${unixPath}`
+    : listenFds.length > 0
+      ? `${listenFds.length} socket(s) passed by systemd`
+      : `${tlsMaterial ? "https" : "http"}://localhost:${server.port}`;
+  // The primary printed the banner; one line per worker is enough.
+  if (cluster.isWorker) {
+    console.log(`   - Worker ${cluster.worker.id}: pid ${process.pid}, ${local}`);
+    return handle;
+  }
   console.log(`   ▲ Next.js (next-bun-compile)`);
-  console.log(`   - Local:    http://localhost:${port}`);
+  console.log(`   - Local:    ${local}`);
+  if (redirectServer) {
+    console.log(`   - Redirect: http://localhost:${redirectServer.port} → https`);
+  }
+  if (bus) {
+    console.log(
+      `   - Invalidation bus: ${bus.transports.map((t) => t.name).join(", ")}`
+    );
+  }
+  if (ws) {
+    console.log(`   - WebSocket: ${ws.label}`);
+  }
+  if (hooks) {
+    console.log(
+      `   - Hooks:    ${[hooks.onRequest && "onRequest", hooks.onResponse && "onResponse"].filter(Boolean).join(", ")}`
+    );
+  }
+  if (limiter) {
+    console.log(
+      `   - Rate limit: ${limiter.rules.map((r) => r.pattern).join(", ")}`
+    );
+  }
+  if (trustedProxies) {
+    console.log(
+      `   - Proxies:  ${trustedProxies.hops ? `${trustedProxies.hops} trusted hop(s)` : `${trustedProxies.ranges.length} trusted range(s)`}`
+    );
+  }
   console.log(
     `   - Static:   ${tier1.length} assets, ${tier2Paths.size} prerendered pages served from memory`
   );
-  return server;
+  return handle;
 }
 
-module.exports = { start };
+module.exports = { start, clusterSize, startPrimary };
 // Test-only escape hatch for unit-testing the fetch→node bridge. Not a public
 // API — may change or disappear in any release without notice.
 module.exports._internal = {
   createBridge,
+  createTracker,
+  createLru,
+  createMetrics,
+  createRateLimiter,
+  encodingKey,
+  formatAccessLine,
+  lookupId,
+  meterBody,
+  negotiateEncoding,
   NodeResponseShim,
   makeNodeRequest,
+  parseBytes,
+  parseRange,
+  parseRateLimits,
+  parseTrustedProxies,
+  requestLimits,
+  preconditionStatus,
+  resolveClient,
   selfOrigin,
   shellGuard,
+  systemdListenFds,
+  relayConnection,
 };
@@ -121,3 +121,1556 @@ test("handler writes racing a client abort do not error the response", async ()
     stopWriting();
   }
 });
+
+test("bridge keeps a request in flight until its streamed body ends", async () => {
+  // A drain that only waited for the head would exit mid-stream — the
+  // rolling-deploy cut-off this tracking exists to prevent.
+  const inflight = _internal.createTracker();
+  let res;
+  const handler = (nodeReq, nodeRes) => {
+    res = nodeRes;
+    nodeRes.writeHead(200, { "content-type": "text/html; charset=utf-8" });
+    nodeRes.write("<shell>");
+  };
+  const bridge = _internal.createBridge(() => handler, inflight);
+  const response = await bridge(new Request("http://localhost/ssr"), undefined);
+  expect(response.status).toBe(200);
+  expect(inflight.size).toBe(1);
+
+  let drained = false;
+  const idle = inflight.idle().then(() => (drained = true));
+  await new Promise((r) => setTimeout(r, 10));
+  expect(drained).toBe(false);
+
+  res.end("<tail>");
+  await idle;
+  expect(inflight.size).toBe(0);
+  expect(await response.text()).toBe("<shell><tail>");
+});
+
+test("bridge releases a request whose handler throws before the head", async () => {
+  const inflight = _internal.createTracker();
+  const bridge = _internal.createBridge(() => () => {
+    throw new Error("boom");
+  }, inflight);
+  await expect(
+    bridge(new Request("http://localhost/api"), undefined)
+  ).rejects.toThrow("boom");
+  expect(inflight.size).toBe(0);
+});
+
+test("request limits parse a default, prefix overrides and a timeout", () => {
+  const limits = _internal.requestLimits({
+    NBC_MAX_BODY_BYTES: "1m, /api/upload=200m, /api=64k",
+    NBC_REQUEST_TIMEOUT: "30000",
+  });
+  expect(limits.maxBodyBytes("/")).toBe(1024 ** 2);
+  expect(limits.maxBodyBytes("/api/items")).toBe(64 * 1024);
+  expect(limits.maxBodyBytes("/api/upload/big")).toBe(200 * 1024 ** 2);
+  expect(limits.ceiling).toBe(200 * 1024 ** 2);
+  expect(limits.timeoutMs).toBe(30000);
+
+  const none = _internal.requestLimits({});
+  expect(none.maxBodyBytes("/")).toBe(Infinity);
+  expect(none.timeoutMs).toBe(0);
+});
+
+test("bridge answers 413 for oversized bodies, declared or streamed", async () => {
+  const limits = _internal.requestLimits({ NBC_MAX_BODY_BYTES: "/upload=8" });
+  let closed = false;
+  let reached = 0;
+  const handler = (nodeReq, nodeRes) => {
+    reached++;
+    nodeRes.on("close", () => (closed = true));
+    nodeReq.on("data", () => {});
+    nodeReq.on("end", () => nodeRes.end("read it all"));
+  };
+  const bridge = _internal.createBridge(() => handler, undefined, limits);
+  const post = (path, body, headers) =>
+    bridge(new Request(`http://localhost${path}`, { method: "POST", body, headers }), undefined);
+
+  expect((await post("/upload", "0123456789", { "content-length": "10" })).status).toBe(413);
+  expect(reached).toBe(0);
+
+  const chunked = new ReadableStream({
+    start(controller) {
+      controller.enqueue(new TextEncoder().encode("01234"));
+      controller.enqueue(new TextEncoder().encode("56789"));
+      controller.close();
+    },
+  });
+  const res = await post("/upload", chunked);
+  expect(res.status).toBe(413);
+  expect(reached).toBe(1);
+  await new Promise((r) => setTimeout(r, 0)); // close is emitted on a tick
+  expect(closed).toBe(true);
+
+  // Other prefixes are unlimited.
+  expect(await (await post("/elsewhere", "0123456789")).text()).toBe("read it all");
+});
+
+test("bridge answers 504 past the request timeout and aborts the render", async () => {
+  const limits = _internal.requestLimits({ NBC_REQUEST_TIMEOUT: "30" });
+  const inflight = _internal.createTracker();
+  let aborted = false;
+  const bridge = _internal.createBridge(
+    () => (nodeReq, nodeRes) => {
+      nodeRes.on("close", () => (aborted = !nodeRes.writableFinished));
+    },
+    inflight,
+    limits
+  );
+  const res = await bridge(new Request("http://localhost/slow"), undefined);
+  expect(res.status).toBe(504);
+  expect(aborted).toBe(true);
+  expect(inflight.size).toBe(0);
+
+  // Already streaming: the body ends where the render was cut off.
+  const streaming = _internal.createBridge(
+    () => (nodeReq, nodeRes) => {
+      nodeRes.writeHead(200);
+      nodeRes.write("<shell>");
+    },
+    undefined,
+    limits
+  );
+  const partial = await streaming(new Request("http://localhost/stream"), undefined);
+  expect(partial.status).toBe(200);
+  expect(await partial.text()).toBe("<shell>");
+});
+
+/* ---------------------------------------------------------------- *
+ * start() against a stub Next install: the router-server and
+ * incremental-cache modules the runtime loads from the extracted tree.
+ * ---------------------------------------------------------------- */
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { start } = require("./serve.js");
+
+function stubNext(files = {}) {
+  const baseDir = fs.mkdtempSync(path.join(os.tmpdir(), "nbc-serve-"));
+  const next = path.join(baseDir, ".next/node_modules/next/dist/server/lib");
+  const write = (rel, content) => {
+    const full = path.join(next, rel);
+    fs.mkdirSync(path.dirname(full), { recursive: true });
+    fs.writeFileSync(full, content);
+  };
+  write(
+    "router-server.js",
+    files.routerServer ??
+      `exports.initialize = async () => ({
+        requestHandler: (req, res) => {
+          res.setHeader("content-type", "text/plain");
+          res.end("next:" + req.url);
+        },
+      });`
+  );
+  write(
+    "incremental-cache/index.js",
+    files.incrementalCache ??
+      `class IncrementalCache {
+        async get() { return null; }
+        async set() {}
+        async revalidateTag() {}
+      }
+      exports.IncrementalCache = IncrementalCache;`
+  );
+  return baseDir;
+}
+
+async function boot(opts = {}) {
+  const baseDir = opts.baseDir ?? stubNext();
+  const server = await start({
+    assetMap: new Map(),
+    port: 0,
+    hostname: "127.0.0.1",
+    baseDir,
+    ...opts,
+  });
+  const url = (p) => `http://127.0.0.1:${server.port}${p}`;
+  return {
+    server,
+    url,
+    get: (p, init) => fetch(url(p), init),
+    async close() {
+      await server.stop(true);
+      fs.rmSync(baseDir, { recursive: true, force: true });
+    },
+  };
+}
+
+test("liveness answers at once; readiness waits for Next and the hook", async () => {
+  const app = await boot();
+  try {
+    const live = await app.get("/_nbc/live");
+    expect(live.status).toBe(200);
+    expect((await live.json()).status).toBe("live");
+
+    // Nothing has booted Next yet — the first probe starts it.
+    const first = await app.get("/_nbc/ready");
+    expect(first.status).toBe(503);
+    expect(first.headers.get("cache-control")).toBe("no-store");
+    const body = await first.json();
+    expect(body.reason).toBe("Next handler initializing");
+    expect(body.checks.extracted).toBe(true);
+
+    let ready;
+    for (let i = 0; i < 50; i++) {
+      ready = await app.get("/_nbc/ready");
+      if (ready.status === 200) break;
+      await new Promise((r) => setTimeout(r, 10));
+    }
+    expect(ready.status).toBe(200);
+    const ok = await ready.json();
+    expect(ok.reason).toBe("ready");
+    expect(ok.checks).toEqual({
+      extracted: true,
+      nextHandler: "ready",
+      invalidationHook: "installed",
+    });
+  } finally {
+    await app.close();
+  }
+});
+
+test("readiness reports a deliberately degraded invalidation hook as ready", async () => {
+  const app = await boot({
+    baseDir: stubNext({ incrementalCache: `exports.IncrementalCache = null;` }),
+  });
+  try {
+    // A Tier-3 request boots Next just as a probe would.
+    expect(await (await app.get("/dynamic")).text()).toBe("next:/dynamic");
+    const ready = await app.get("/_nbc/ready");
+    expect(ready.status).toBe(200);
+    const body = await ready.json();
+    expect(body.checks.invalidationHook).toBe("degraded");
+    expect(body.reason).toContain("memory page tiers disabled");
+  } finally {
+    await app.close();
+  }
+});
+
+test("readiness fails with the reason when Next cannot initialize", async () => {
+  const app = await boot({
+    baseDir: stubNext({
+      routerServer: `exports.initialize = async () => { throw new Error("no config"); };`,
+    }),
+  });
+  try {
+    await app.get("/_nbc/ready");
+    await new Promise((r) => setTimeout(r, 10));
+    const ready = await app.get("/_nbc/ready");
+    expect(ready.status).toBe(503);
+    expect((await ready.json()).reason).toBe(
+      "Next handler failed to initialize: no config"
+    );
+  } finally {
+    await app.close();
+  }
+});
+
+test("metrics render Prometheus text: counters, gauges, histograms", () => {
+  const m = _internal.createMetrics();
+  m.inc("nbc_l1_lookups_total", { result: "hit" });
+  expect(m.render()).toBe("\n"); // disabled registry records nothing
+
+  m.enabled = true;
+  m.inc("nbc_l1_lookups_total", { result: "hit" });
+  m.inc("nbc_l1_lookups_total", { result: "hit" });
+  m.inc("nbc_l1_lookups_total", { result: "miss" });
+  m.gauge("nbc_l1_entries", () => 7);
+  m.observe("nbc_bridge_request_duration_seconds", 0.02);
+  m.observe("nbc_bridge_request_duration_seconds", 3);
+  const text = m.render();
+  expect(text).toContain("# TYPE nbc_l1_lookups_total counter");
+  expect(text).toContain('nbc_l1_lookups_total{result="hit"} 2');
+  expect(text).toContain('nbc_l1_lookups_total{result="miss"} 1');
+  expect(text).toContain("nbc_l1_entries 7");
+  expect(text).toContain('nbc_bridge_request_duration_seconds_bucket{le="0.01"} 0');
+  expect(text).toContain('nbc_bridge_request_duration_seconds_bucket{le="0.025"} 1');
+  expect(text).toContain('nbc_bridge_request_duration_seconds_bucket{le="+Inf"} 2');
+  expect(text).toContain("nbc_bridge_request_duration_seconds_count 2");
+});
+
+test("/_nbc/metrics counts tier hits, 304s and bridge traffic", async () => {
+  process.env.NBC_METRICS = "s3cret";
+  const baseDir = stubNext();
+  const file = (name, content) => {
+    const p = path.join(baseDir, name);
+    fs.writeFileSync(p, content);
+    return p;
+  };
+  const app = await boot({
+    baseDir,
+    assetMap: new Map([
+      ["/_next/static/app.js", file("app.js", "x".repeat(2048))],
+      ["/logo.png", file("logo.png", "png")],
+    ]),
+    tier1: [
+      { urlPath: "/_next/static/app.js", key: "/_next/static/app.js", kind: "static" },
+      { urlPath: "/logo.png", key: "/logo.png", kind: "public" },
+    ],
+  });
+  try {
+    expect((await app.get("/_nbc/metrics")).status).toBe(401);
+    const gz = await app.get("/_next/static/app.js", {
+      headers: { "accept-encoding": "gzip" },
+      decompress: false,
+    });
+    const etag = gz.headers.get("etag");
+    await app.get("/_next/static/app.js", { headers: { "if-none-match": etag } });
+    await app.get("/logo.png");
+    await app.get("/dynamic");
+
+    const res = await app.get("/_nbc/metrics", {
+      headers: { authorization: "Bearer s3cret" },
+    });
+    expect(res.headers.get("content-type")).toContain("text/plain");
+    const text = await res.text();
+    expect(text).toContain(
+      'nbc_tier_responses_total{tier="static",status="200",encoding="gzip"} 1'
+    );
+    expect(text).toContain(
+      'nbc_tier_responses_total{tier="static",status="304",encoding="none"} 1'
+    );
+    expect(text).toContain(
+      'nbc_tier_responses_total{tier="public",status="200",encoding="identity"} 1'
+    );
+    expect(text).toContain("nbc_bridge_request_duration_seconds_count 1");
+    expect(text).toContain("nbc_tier2_pages 0");
+  } finally {
+    delete process.env.NBC_METRICS;
+    await app.close();
+  }
+});
+
+test("combined access-log lines follow the CLF layout plus tier and duration", () => {
+  const line = _internal.formatAccessLine("combined", {
+    time: new Date(Date.UTC(2026, 0, 5, 7, 8, 9)),
+    method: "GET",
+    path: "/docs?x=1",
+    status: 200,
+    bytes: 512,
+    durationMs: 3.25,
+    ip: "10.0.0.7",
+    tier: "page",
+    referer: null,
+    userAgent: 'curl/8 "quoted"',
+  });
+  expect(line).toBe(
+    '10.0.0.7 - - [05/Jan/2026:07:08:09 +0000] "GET /docs?x=1 HTTP/1.1" 200 512 "-" "curl/8 \\"quoted\\"" page 3.25'
+  );
+});
+
+test("access log writes one line per response, after the body ends, with its tier", async () => {
+  process.env.NBC_ACCESS_LOG = "json";
+  const lines = [];
+  const origWrite = process.stdout.write;
+  process.stdout.write = function (chunk, ...rest) {
+    if (typeof chunk === "string" && chunk.startsWith("{")) {
+      lines.push(JSON.parse(chunk));
+      return true;
+    }
+    return origWrite.call(this, chunk, ...rest);
+  };
+  const baseDir = stubNext({
+    routerServer: `exports.initialize = async () => ({
+      requestHandler: (req, res) => {
+        res.writeHead(200, { "content-type": "text/html" });
+        res.write("<shell>");
+        // a streamed render still in flight after the head is out
+        setTimeout(() => res.end("<tail>"), 50);
+      },
+    });`,
+  });
+  const logo = path.join(baseDir, "logo.png");
+  fs.writeFileSync(logo, "png");
+  const app = await boot({
+    baseDir,
+    assetMap: new Map([["/logo.png", logo]]),
+    tier1: [{ urlPath: "/logo.png", key: "/logo.png", kind: "public" }],
+  });
+  try {
+    expect(await (await app.get("/logo.png?v=2")).text()).toBe("png");
+    // a non-GET on a tier route reaches Next — logged as such
+    await (await app.get("/logo.png", { method: "POST" })).text();
+    const streamed = await app.get("/dynamic");
+    expect(lines).toHaveLength(2); // head is out, the render is not done
+    expect(await streamed.text()).toBe("<shell><tail>");
+    // probes stay out of the log
+    await (await app.get("/_nbc/live")).text();
+    await new Promise((r) => setTimeout(r, 10));
+
+    expect(lines.map((l) => [l.method, l.path, l.status, l.tier])).toEqual([
+      ["GET", "/logo.png?v=2", 200, "public"],
+      ["POST", "/logo.png", 200, "next"],
+      ["GET", "/dynamic", 200, "next"],
+    ]);
+    expect(lines[0].bytes).toBe(3);
+    expect(lines[2].bytes).toBe("<shell><tail>".length);
+    expect(lines[2].duration_ms).toBeGreaterThanOrEqual(40);
+    expect(lines[0].ip).toBe("127.0.0.1");
+    expect(typeof lines[0].duration_ms).toBe("number");
+  } finally {
+    process.stdout.write = origWrite;
+    delete process.env.NBC_ACCESS_LOG;
+    await app.close();
+  }
+});
+
+function selfSignedCert(dir, cn) {
+  const key = path.join(dir, `${cn}.key`);
+  const cert = path.join(dir, `${cn}.crt`);
+  const { exitCode } = Bun.spawnSync([
+    "openssl", "req", "-x509", "-newkey", "rsa:2048", "-nodes",
+    "-keyout", key, "-out", cert, "-days", "1", "-subj", `/CN=${cn}`,
+  ]);
+  if (exitCode !== 0) throw new Error("openssl failed");
+  return { key, cert };
+}
+
+function peerName(port) {
+  const tls = require("tls");
+  return new Promise((resolve, reject) => {
+    const socket = tls.connect(
+      { port, host: "127.0.0.1", rejectUnauthorized: false },
+      () => {
+        resolve(socket.getPeerCertificate().subject.CN);
+        socket.end();
+      }
+    );
+    socket.on("error", reject);
+  });
+}
+
+test("TLS listener: self-fetch origin stays plain, SIGHUP rotates the certificate", async () => {
+  const baseDir = stubNext({
+    routerServer: `exports.initialize = async () => ({
+      requestHandler: (req, res) => {
+        res.end(req.url === "/scheme" ? String(req.socket.encrypted) : "next:" + req.url);
+      },
+    });`,
+  });
+  const first = selfSignedCert(baseDir, "first.test");
+  const second = selfSignedCert(baseDir, "second.test");
+  process.env.NBC_TLS_CERT = first.cert;
+  process.env.NBC_TLS_KEY = first.key;
+  const prevOrigin = process.env.__NEXT_PRIVATE_ORIGIN;
+  delete process.env.__NEXT_PRIVATE_ORIGIN;
+  const app = await boot({ baseDir });
+  try {
+    const port = app.server.port;
+    const res = await fetch(`https://127.0.0.1:${port}/dynamic`, {
+      tls: { rejectUnauthorized: false },
+    });
+    expect(await res.text()).toBe("next:/dynamic");
+    expect(await peerName(port)).toBe("first.test");
+
+    // Server actions dial back over plain loopback, not the public cert.
+    const origin = process.env.__NEXT_PRIVATE_ORIGIN;
+    expect(origin).toMatch(/^http:\/\/127\.0\.0\.1:\d+$/);
+    expect(await (await fetch(`${origin}/dynamic`)).text()).toBe("next:/dynamic");
+
+    // Next derives the scheme from the socket: https here, http on loopback.
+    const scheme = await fetch(`https://127.0.0.1:${port}/scheme`, {
+      tls: { rejectUnauthorized: false },
+    });
+    expect(await scheme.text()).toBe("true");
+    expect(await (await fetch(`${origin}/scheme`)).text()).toBe("false");
+
+    // Bad material keeps the current certificate serving.
+    fs.writeFileSync(path.join(baseDir, "bad.crt"), "not a certificate");
+    process.env.NBC_TLS_CERT = path.join(baseDir, "bad.crt");
+    process.emit("SIGHUP");
+    await new Promise((r) => setTimeout(r, 20));
+    expect(await peerName(port)).toBe("first.test");
+    process.env.NBC_TLS_CERT = first.cert;
+
+    fs.copyFileSync(second.cert, first.cert);
+    fs.copyFileSync(second.key, first.key);
+    process.emit("SIGHUP");
+    await new Promise((r) => setTimeout(r, 20));
+    expect(await peerName(port)).toBe("second.test");
+    // The handle start() returned follows the replacement listener.
+    expect(app.server.port).toBe(port);
+    expect(app.server.protocol).toBe("https");
+    // Nothing else can bind the port alongside it.
+    expect(() =>
+      Bun.serve({ port, hostname: "127.0.0.1", fetch: () => new Response("") })
+    ).toThrow();
+  } finally {
+    delete process.env.NBC_TLS_CERT;
+    delete process.env.NBC_TLS_KEY;
+    process.env.__NEXT_PRIVATE_ORIGIN = prevOrigin;
+    process.removeAllListeners("SIGHUP");
+    await app.close();
+  }
+});
+
+test("unix socket listener: stale socket replaced, mode applied, self-fetch over loopback", async () => {
+  const baseDir = stubNext();
+  const sock = path.join(baseDir, "app.sock");
+  // A socket file left by a crashed process.
+  const stale = Bun.serve({ unix: sock, fetch: () => new Response("stale") });
+  stale.stop(true);
+  process.env.NBC_SOCKET = sock;
+  process.env.NBC_SOCKET_MODE = "660";
+  const prevOrigin = process.env.__NEXT_PRIVATE_ORIGIN;
+  delete process.env.__NEXT_PRIVATE_ORIGIN;
+  const app = await boot({ baseDir });
+  try {
+    const res = await fetch("http://localhost/dynamic", { unix: sock });
+    expect(await res.text()).toBe("next:/dynamic");
+    expect(fs.statSync(sock).mode & 0o777).toBe(0o660);
+
+    const origin = process.env.__NEXT_PRIVATE_ORIGIN;
+    expect(origin).toMatch(/^http:\/\/127\.0\.0\.1:\d+$/);
+    expect(await (await fetch(`${origin}/dynamic`)).text()).toBe("next:/dynamic");
+  } finally {
+    delete process.env.NBC_SOCKET;
+    delete process.env.NBC_SOCKET_MODE;
+    process.env.__NEXT_PRIVATE_ORIGIN = prevOrigin;
+    await app.close();
+  }
+});
+
+test("systemd fds are only claimed when LISTEN_PID names this process", () => {
+  const { systemdListenFds } = _internal;
+  process.env.LISTEN_FDS = "2";
+  process.env.LISTEN_PID = String(process.pid + 1);
+  expect(systemdListenFds()).toEqual([]);
+  expect(process.env.LISTEN_FDS).toBe("2");
+
+  process.env.LISTEN_PID = String(process.pid);
+  expect(systemdListenFds()).toEqual([3, 4]);
+  expect(process.env.LISTEN_FDS).toBeUndefined();
+  expect(process.env.LISTEN_PID).toBeUndefined();
+});
+
+test("relayed connections reach Next with the relay's peer, not loopback", async () => {
+  const net = require("net");
+  const { relayConnection } = _internal;
+  const app = await boot({
+    baseDir: stubNext({
+      routerServer: `exports.initialize = async () => ({
+        requestHandler: (req, res) => res.end(req.socket.remoteAddress),
+      });`,
+    }),
+  });
+  const relay = net.createServer((client) => relayConnection(client, app.server.port));
+  await new Promise((r) => relay.listen(0, "127.0.0.1", r));
+  try {
+    // A peer other than 127.0.0.1, which is what the relay dials from.
+    const body = await new Promise((resolve, reject) => {
+      const socket = net.connect(
+        { port: relay.address().port, host: "127.0.0.1", localAddress: "127.0.0.2" },
+        () => socket.write("GET /who HTTP/1.1\r\nhost: x\r\nconnection: close\r\n\r\n")
+      );
+      let raw = "";
+      socket.on("data", (chunk) => (raw += chunk));
+      socket.on("end", () => resolve(raw.slice(raw.indexOf("\r\n\r\n") + 4)));
+      socket.on("error", reject);
+    });
+    expect(body).toBe("127.0.0.2");
+  } finally {
+    relay.close();
+    await app.close();
+  }
+});
+
+test("socket owner resolves names and numeric ids", () => {
+  const { lookupId } = _internal;
+  expect(lookupId("0", "/etc/passwd")).toBe(0);
+  expect(lookupId("root", "/etc/passwd")).toBe(0);
+  expect(() => lookupId("no-such-user-nbc", "/etc/passwd")).toThrow(/unknown user/);
+});
+
+test("cluster workers share the port and relay invalidations", async () => {
+  const baseDir = stubNext({
+    routerServer: `const { IncrementalCache } = require("./incremental-cache/index.js");
+      exports.initialize = async () => ({
+        requestHandler: async (req, res) => {
+          if (req.url === "/revalidate") await new IncrementalCache().revalidateTag("products");
+          res.end("next:" + req.url + ":" + process.pid);
+        },
+      });`,
+  });
+  fs.writeFileSync(path.join(baseDir, "page.html"), "<p>prerendered</p>");
+  const probe = Bun.serve({ port: 0, hostname: "127.0.0.1", fetch: () => new Response() });
+  const port = probe.port;
+  probe.stop(true);
+  const script = path.join(baseDir, "cluster.js");
+  fs.writeFileSync(
+    script,
+    `const { start, clusterSize, startPrimary } = require(${JSON.stringify(require.resolve("./serve.js"))});
+    const workers = clusterSize();
+    if (workers > 0) startPrimary(workers);
+    else start({
+      assetMap: new Map([["/page.html", ${JSON.stringify(path.join(baseDir, "page.html"))}]]),
+      port: ${port},
+      hostname: "127.0.0.1",
+      baseDir: ${JSON.stringify(baseDir)},
+      staticPages: [{ path: "/page", htmlKey: "/page.html", status: 200, tags: ["products"] }],
+    });`
+  );
+  const primary = Bun.spawn([process.execPath, script], {
+    env: { ...process.env, NBC_WORKERS: "2" },
+    stdout: "ignore",
+    stderr: "inherit",
+  });
+  const get = (p) =>
+    fetch(`http://127.0.0.1:${port}${p}`, { keepalive: false }).then((r) => r.text());
+  try {
+    // Both workers up: connections land on two different pids.
+    const seen = new Set();
+    for (let i = 0; i < 200 && seen.size < 2; i++) {
+      const text = await get("/whoami").catch(() => null);
+      if (text) seen.add(text.split(":").pop());
+      else await new Promise((r) => setTimeout(r, 50));
+    }
+    expect(seen.size).toBe(2);
+    expect(await get("/page")).toBe("<p>prerendered</p>");
+
+    await get("/revalidate");
+    await new Promise((r) => setTimeout(r, 200));
+    // Whichever worker takes each connection, the page is gone from memory.
+    const pids = new Set();
+    for (let i = 0; i < 20; i++) {
+      const text = await get("/page");
+      expect(text).toStartWith("next:/page:");
+      pids.add(text.split(":").pop());
+    }
+    expect(pids.size).toBe(2);
+
+    primary.kill("SIGTERM");
+    expect(await primary.exited).toBe(0);
+  } finally {
+    primary.kill("SIGKILL");
+    fs.rmSync(baseDir, { recursive: true, force: true });
+  }
+}, 30000);
+
+test("a crash-looping cluster gives up; a wedged worker can't hold up shutdown", async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "nbc-primary-"));
+  const script = path.join(dir, "cluster.js");
+  // Workers crash at once, or (WEDGE) ignore the primary's drain request.
+  fs.writeFileSync(
+    script,
+    `const cluster = require("cluster");
+    const { startPrimary } = require(${JSON.stringify(require.resolve("./serve.js"))});
+    if (cluster.isPrimary) startPrimary(2, { delayMs: 10, limit: 3 });
+    else if (process.env.WEDGE) { process.on("message", () => {}); process.send({ type: "up" }); }
+    else process.exit(1);`
+  );
+  const spawn = (env) =>
+    Bun.spawn([process.execPath, script], {
+      env: { ...process.env, ...env },
+      stdout: "ignore",
+      stderr: "ignore",
+    });
+  const crashing = spawn({});
+  const wedged = spawn({ WEDGE: "1", NBC_SHUTDOWN_TIMEOUT: "0" });
+  try {
+    expect(await crashing.exited).toBe(1);
+
+    await new Promise((r) => setTimeout(r, 500));
+    const signalled = Date.now();
+    wedged.kill("SIGTERM");
+    expect(await wedged.exited).toBe(0);
+    expect(Date.now() - signalled).toBeGreaterThanOrEqual(4000);
+  } finally {
+    crashing.kill("SIGKILL");
+    wedged.kill("SIGKILL");
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}, 30000);
+
+test("shell routes the endpoint doesn't serve count Next's actual status", async () => {
+  process.env.NBC_METRICS = "1";
+  process.env.NBC_PPR_SHELL = "1";
+  const baseDir = stubNext({
+    routerServer: `exports.initialize = async () => ({
+        requestHandler: (req, res) => {
+          res.statusCode = req.url.startsWith("/_nbc/ppr-shell/") ? 404 : 200;
+          res.end("next");
+        },
+      });`,
+  });
+  const app = await boot({ baseDir });
+  try {
+    // A plain GET is L1-keyable — the count must not depend on that.
+    const res = await app.get("/_nbc/ppr-shell/unknown");
+    expect(res.status).toBe(404);
+    await res.text();
+    const metrics = await (await app.get("/_nbc/metrics")).text();
+    expect(metrics).toContain('nbc_shell_responses_total{status="404"} 1');
+  } finally {
+    delete process.env.NBC_METRICS;
+    delete process.env.NBC_PPR_SHELL;
+    await app.close();
+  }
+});
+
+test("a tag revalidation evicts only the L1 entries that rendered with that tag", async () => {
+  process.env.NBC_METRICS = "1";
+  const baseDir = stubNext({
+    incrementalCache: `class IncrementalCache {
+        async get(key) {
+          const tags = { "/a": "_N_T_/a,product", "/b": "_N_T_/b,blog" }[key];
+          return { value: { kind: "APP_PAGE", headers: { "x-next-cache-tags": tags } } };
+        }
+        async set() {}
+        async revalidateTag() {}
+      }
+      exports.IncrementalCache = IncrementalCache;`,
+    routerServer: `const { IncrementalCache } = require("./incremental-cache/index.js");
+      let renders = 0;
+      exports.initialize = async () => ({
+        requestHandler: async (req, res) => {
+          const url = new URL(req.url, "http://x");
+          if (url.pathname === "/revalidate") {
+            await new IncrementalCache().revalidateTag(url.searchParams.get("tag"));
+            return res.end("ok");
+          }
+          await new IncrementalCache().get(url.pathname);
+          res.setHeader("x-nextjs-cache", "HIT");
+          res.setHeader("cache-control", "s-maxage=60");
+          const n = ++renders;
+          res.setHeader("etag", '"r' + n + '"');
+          res.end(url.pathname + ":" + n);
+        },
+      });`,
+  });
+  const app = await boot({ baseDir });
+  const text = async (p) => (await app.get(p)).text();
+  const settle = () => new Promise((r) => setTimeout(r, 20));
+  try {
+    const a = await text("/a");
+    const b = await text("/b");
+    await settle();
+    expect(await text("/a")).toBe(a);
+    expect(await text("/b")).toBe(b);
+    // Hits revalidate against the stored render's ETag (this stub never
+    // answers a 304 itself).
+    const revalidated = await app.get("/b", { headers: { "if-none-match": 'W/"r2"' } });
+    expect(revalidated.status).toBe(304);
+
+    await text("/revalidate?tag=product");
+    expect(await text("/a")).not.toBe(a);
+    expect(await text("/b")).toBe(b);
+
+    const metrics = await (await app.get("/_nbc/metrics")).text();
+    expect(metrics).toContain('nbc_l1_evictions_total{reason="tag"} 1');
+  } finally {
+    delete process.env.NBC_METRICS;
+    await app.close();
+  }
+});
+
+test("L1 LRU evicts least recently used entries to stay under its byte budget", () => {
+  const evicted = [];
+  const lru = _internal.createLru(100, (key, reason) => evicted.push(`${key}:${reason}`));
+  lru.set("a", { size: 40 });
+  lru.set("b", { size: 40 });
+  lru.get("a"); // b is now the coldest
+  lru.set("c", { size: 40 });
+  expect(evicted).toEqual(["b:capacity"]);
+  expect([...lru].map(([k]) => k)).toEqual(["a", "c"]);
+  expect(lru.bytes).toBe(80);
+
+  // Bigger than the whole budget: refused, nothing evicted for it.
+  expect(lru.set("huge", { size: 101 })).toBe(false);
+  expect(lru.size).toBe(2);
+
+  // Overwrites aren't evictions.
+  lru.set("a", { size: 10 });
+  expect(lru.bytes).toBe(50);
+  expect(lru.delete("c", "tag")).toBe(true);
+  expect(evicted).toEqual(["b:capacity", "c:tag"]);
+});
+
+test("byte sizes parse plain and suffixed values", () => {
+  const { parseBytes } = _internal;
+  expect(parseBytes("1048576", 0)).toBe(1048576);
+  expect(parseBytes("64m", 0)).toBe(64 * 1024 * 1024);
+  expect(parseBytes("512KiB", 0)).toBe(512 * 1024);
+  expect(parseBytes("1.5g", 0)).toBe(1.5 * 1024 ** 3);
+  expect(parseBytes("lots", 7)).toBe(7);
+  expect(parseBytes(undefined, 7)).toBe(7);
+});
+
+// A stub Next whose /revalidate?tag= calls revalidateTag, plus one
+// prerendered page tagged "products" — the shape the bus tests need.
+function busApp() {
+  const baseDir = stubNext({
+    routerServer: `const { IncrementalCache } = require("./incremental-cache/index.js");
+      exports.initialize = async () => ({
+        requestHandler: async (req, res) => {
+          const url = new URL(req.url, "http://x");
+          if (url.pathname === "/revalidate") {
+            await new IncrementalCache().revalidateTag(url.searchParams.get("tag"));
+          }
+          res.end("next:" + url.pathname);
+        },
+      });`,
+  });
+  const page = path.join(baseDir, "page.html");
+  fs.writeFileSync(page, "<p>prerendered</p>");
+  return {
+    baseDir,
+    assetMap: new Map([["/page.html", page]]),
+    staticPages: [{ path: "/page", htmlKey: "/page.html", status: 200, tags: ["products"] }],
+    customCacheHandler: true,
+  };
+}
+
+test("a custom cacheHandler keeps pages with Next unless a bus is configured", async () => {
+  const app = await boot(busApp());
+  try {
+    expect(await (await app.get("/page")).text()).toBe("next:/page");
+  } finally {
+    await app.close();
+  }
+});
+
+test("webhook bus: publishes local revalidations, applies authenticated peer events", async () => {
+  const received = [];
+  const peer = Bun.serve({
+    port: 0,
+    hostname: "127.0.0.1",
+    async fetch(req) {
+      received.push({ auth: req.headers.get("authorization"), event: await req.json() });
+      return new Response(null, { status: 204 });
+    },
+  });
+  process.env.NBC_INVALIDATION_WEBHOOK = `http://127.0.0.1:${peer.port}/_nbc/invalidate`;
+  process.env.NBC_INVALIDATION_TOKEN = "bus-secret";
+  const app = await boot(busApp());
+  const post = (body, token = "bus-secret") =>
+    app.get("/_nbc/invalidate", {
+      method: "POST",
+      headers: { authorization: `Bearer ${token}` },
+      body: JSON.stringify(body),
+    });
+  try {
+    expect(await (await app.get("/page")).text()).toBe("<p>prerendered</p>");
+
+    await app.get("/revalidate?tag=blog");
+    await new Promise((r) => setTimeout(r, 50));
+    expect(received).toHaveLength(1);
+    expect(received[0].auth).toBe("Bearer bus-secret");
+    expect(received[0].event.tags).toBe("blog");
+
+    expect((await post({ tags: ["products"] }, "wrong")).status).toBe(401);
+    expect((await post({ tags: [42] })).status).toBe(400);
+    expect(await (await app.get("/page")).text()).toBe("<p>prerendered</p>");
+
+    expect((await post({ origin: "another-pod", tags: ["products"] })).status).toBe(204);
+    expect(await (await app.get("/page")).text()).toBe("next:/page");
+    // Applied, not re-published.
+    expect(received).toHaveLength(1);
+  } finally {
+    delete process.env.NBC_INVALIDATION_WEBHOOK;
+    delete process.env.NBC_INVALIDATION_TOKEN;
+    peer.stop(true);
+    await app.close();
+  }
+});
+
+test.skipIf(!Bun.which("redis-server"))(
+  "redis bus: applies events published by other pods",
+  async () => {
+    const probe = Bun.serve({ port: 0, fetch: () => new Response() });
+    const port = probe.port;
+    probe.stop(true);
+    const redis = Bun.spawn(
+      ["redis-server", "--port", String(port), "--save", "", "--appendonly", "no"],
+      { stdout: "ignore", stderr: "ignore" }
+    );
+    const url = `redis://127.0.0.1:${port}`;
+    const client = new Bun.RedisClient(url);
+    for (let i = 0; i < 50; i++) {
+      try {
+        await client.send("PING", []);
+        break;
+      } catch {
+        await new Promise((r) => setTimeout(r, 50));
+      }
+    }
+    process.env.NBC_INVALIDATION_REDIS = url;
+    const app = await boot(busApp());
+    try {
+      // Subscribing happens in the background after boot.
+      await new Promise((r) => setTimeout(r, 200));
+      const seen = [];
+      const listener = await client.duplicate();
+      await listener.subscribe("nbc:invalidate", (m) => seen.push(JSON.parse(m)));
+      await app.get("/revalidate?tag=blog");
+      await new Promise((r) => setTimeout(r, 100));
+      expect(seen.map((e) => e.tags)).toEqual(["blog"]);
+      listener.close();
+
+      expect(await (await app.get("/page")).text()).toBe("<p>prerendered</p>");
+      await client.publish(
+        "nbc:invalidate",
+        JSON.stringify({ origin: "another-pod", tags: ["products"] })
+      );
+      await new Promise((r) => setTimeout(r, 100));
+      expect(await (await app.get("/page")).text()).toBe("next:/page");
+    } finally {
+      delete process.env.NBC_INVALIDATION_REDIS;
+      client.close();
+      await app.close();
+      redis.kill();
+    }
+  }
+);
+
+test("admin API lists the live tiers, purges and revalidates through Next", async () => {
+  process.env.NBC_ADMIN_TOKEN = "adm1n";
+  const baseDir = stubNext({
+    incrementalCache: `class IncrementalCache {
+        async get(key) {
+          return { value: { kind: "APP_PAGE", headers: { "x-next-cache-tags": "_N_T_" + key } } };
+        }
+        async set() {}
+        async revalidateTag() {}
+      }
+      exports.IncrementalCache = IncrementalCache;`,
+    routerServer: `const { IncrementalCache } = require("./incremental-cache/index.js");
+      exports.initialize = async () => ({
+        requestHandler: async (req, res) => {
+          await new IncrementalCache().get(req.url);
+          res.setHeader("x-nextjs-cache", "HIT");
+          res.setHeader("cache-control", "s-maxage=60");
+          res.end("next:" + req.url);
+        },
+      });`,
+  });
+  fs.writeFileSync(path.join(baseDir, "page.html"), "<p>prerendered</p>");
+  const app = await boot({
+    baseDir,
+    assetMap: new Map([["/page.html", path.join(baseDir, "page.html")]]),
+    staticPages: [{ path: "/page", htmlKey: "/page.html", status: 200, tags: ["products"] }],
+  });
+  const admin = (action, method = "GET") =>
+    app.get(`/_nbc/admin/${action}`, { method, headers: { "x-nbc-admin-token": "adm1n" } });
+  try {
+    expect((await app.get("/_nbc/admin/tiers")).status).toBe(401);
+    expect((await admin("nope")).status).toBe(404);
+    expect((await admin("purge")).status).toBe(405);
+
+    await app.get("/a");
+    await app.get("/b");
+    await new Promise((r) => setTimeout(r, 20));
+    const tiers = await (await admin("tiers")).json();
+    expect(tiers.tier2).toEqual(["/page"]);
+    expect(tiers.l1.entries.map((e) => e.path).sort()).toEqual(["/a", "/b"]);
+    expect(tiers.l1.entries[0].tags).toEqual([`_N_T_${tiers.l1.entries[0].path}`]);
+    expect(Date.parse(tiers.l1.entries[0].expires)).toBeGreaterThan(Date.now());
+
+    expect(await (await admin("purge?path=/a", "POST")).json()).toEqual({
+      path: "/a",
+      tier2: false,
+      l1: 1,
+    });
+    expect((await admin("purge?everything", "POST")).status).toBe(400);
+
+    expect(await (await admin("revalidate?tag=products", "POST")).json()).toEqual({
+      revalidated: ["products"],
+    });
+    expect(await (await app.get("/page")).text()).toBe("next:/page");
+
+    await admin("revalidate?path=/b", "POST");
+    const after = await (await admin("tiers")).json();
+    expect(after.tier2).toEqual([]);
+    // /page went to Next (and into L1) once it left Tier 2.
+    expect(after.l1.entries.map((e) => e.path)).toEqual(["/page"]);
+    expect(await (await admin("purge?all=1", "POST")).json()).toEqual({ l1: 1 });
+  } finally {
+    delete process.env.NBC_ADMIN_TOKEN;
+    await app.close();
+  }
+});
+
+test("content negotiation honours q-values, wildcards and server preference", () => {
+  const { negotiateEncoding, encodingKey } = _internal;
+  const req = (ae) => new Request("http://x/", { headers: ae == null ? {} : { "accept-encoding": ae } });
+  const all = ["br", "zstd", "gzip"];
+  expect(negotiateEncoding(req("gzip, deflate, br, zstd"), all)).toBe("br");
+  expect(negotiateEncoding(req("gzip;q=1, br;q=0.5"), all)).toBe("gzip");
+  expect(negotiateEncoding(req("br;q=0, gzip"), all)).toBe("gzip");
+  expect(negotiateEncoding(req("zstd, br;q=0.9"), all)).toBe("zstd");
+  expect(negotiateEncoding(req("*;q=0.5, gzip;q=0"), all)).toBe("br");
+  expect(negotiateEncoding(req("GZIP"), all)).toBe("gzip");
+  expect(negotiateEncoding(req("identity"), all)).toBe("identity");
+  expect(negotiateEncoding(req(null), all)).toBe("identity");
+  // Not precomputed → not offered.
+  expect(negotiateEncoding(req("br"), ["gzip"])).toBe("identity");
+
+  expect(encodingKey(req("gzip, deflate, br;q=0.8, zstd;q=0"))).toBe("gzip,deflate,br");
+  expect(encodingKey(req(null))).toBe("");
+});
+
+test("Tier 1 serves the negotiated precompressed variant", async () => {
+  const baseDir = stubNext();
+  const js = "export const x = " + JSON.stringify("lorem ipsum ".repeat(400)) + ";";
+  fs.writeFileSync(path.join(baseDir, "app.js"), js);
+  const app = await boot({
+    baseDir,
+    assetMap: new Map([["/_next/static/app.js", path.join(baseDir, "app.js")]]),
+    tier1: [{ urlPath: "/_next/static/app.js", key: "/_next/static/app.js", kind: "static" }],
+  });
+  const get = (ae) =>
+    app.get("/_next/static/app.js", { headers: { "accept-encoding": ae }, decompress: false });
+  try {
+    const br = await get("gzip, deflate, br, zstd");
+    expect(br.headers.get("content-encoding")).toBe("br");
+    expect(require("zlib").brotliDecompressSync(Buffer.from(await br.arrayBuffer())).toString()).toBe(js);
+
+    const gz = await get("gzip, br;q=0.1");
+    expect(gz.headers.get("content-encoding")).toBe("gzip");
+    expect(Bun.gunzipSync(new Uint8Array(await gz.arrayBuffer()))).toEqual(new TextEncoder().encode(js));
+
+    if (Bun.zstdCompressSync) {
+      const zs = await get("zstd");
+      expect(zs.headers.get("content-encoding")).toBe("zstd");
+      expect(new TextDecoder().decode(Bun.zstdDecompressSync(new Uint8Array(await zs.arrayBuffer())))).toBe(js);
+    }
+
+    const plain = await get("identity");
+    expect(plain.headers.get("content-encoding")).toBeNull();
+    expect(plain.headers.get("vary")).toBe("Accept-Encoding");
+    expect(await plain.text()).toBe(js);
+  } finally {
+    await app.close();
+  }
+});
+
+test("build-time variants are served as embedded; bodies the build passed over are compressed at boot", async () => {
+  const baseDir = stubNext();
+  const css = "body { color: red; }\n".repeat(100);
+  const file = (name, content) => {
+    fs.writeFileSync(path.join(baseDir, name), content);
+    return path.join(baseDir, name);
+  };
+  // Deliberately not what this process would produce itself.
+  const br = require("zlib").brotliCompressSync(css, {
+    params: { [require("zlib").constants.BROTLI_PARAM_QUALITY]: 1 },
+  });
+  const app = await boot({
+    baseDir,
+    assetMap: new Map([
+      ["/_next/static/app.css", file("app.css", css)],
+      ["/captions.vtt", file("captions.vtt", "WEBVTT\n\n" + "00:00.000 --> 00:01.000\nhello\n\n".repeat(60))],
+    ]),
+    precompressed: new Map([["/_next/static/app.css", { br: file("app.css.br", br) }]]),
+    tier1: [
+      { urlPath: "/_next/static/app.css", key: "/_next/static/app.css", kind: "static" },
+      { urlPath: "/captions.vtt", key: "/captions.vtt", kind: "public" },
+    ],
+  });
+  const get = (ae) =>
+    app.get("/_next/static/app.css", { headers: { "accept-encoding": ae }, decompress: false });
+  try {
+    const res = await get("gzip, br");
+    expect(res.headers.get("content-encoding")).toBe("br");
+    expect(Buffer.from(await res.arrayBuffer()).equals(br)).toBe(true);
+    // No gzip variant was embedded, so none is offered.
+    expect((await get("gzip")).headers.get("content-encoding")).toBeNull();
+
+    // Text the build passed over still goes out compressed.
+    const vtt = await app.get("/captions.vtt", {
+      headers: { "accept-encoding": "gzip" },
+      decompress: false,
+    });
+    expect(vtt.headers.get("content-encoding")).toBe("gzip");
+  } finally {
+    await app.close();
+  }
+});
+
+test("range headers parse like Next's static handler: suffixes, clamping, merging", () => {
+  const { parseRange } = _internal;
+  expect(parseRange(null, 100)).toBeNull();
+  expect(parseRange("items=0-1", 100)).toBeNull();
+  expect(parseRange("bytes=abc", 100)).toBeNull();
+  expect(parseRange("bytes=0-9", 100)).toEqual([{ start: 0, end: 9 }]);
+  expect(parseRange("bytes=-10", 100)).toEqual([{ start: 90, end: 99 }]);
+  expect(parseRange("bytes=90-", 100)).toEqual([{ start: 90, end: 99 }]);
+  expect(parseRange("bytes=90-500", 100)).toEqual([{ start: 90, end: 99 }]);
+  expect(parseRange("bytes=20-29, 0-9, 5-14", 100)).toEqual([
+    { start: 0, end: 14 },
+    { start: 20, end: 29 },
+  ]);
+  expect(parseRange("bytes=100-200", 100)).toEqual([]);
+});
+
+test("public files answer Range requests from memory: 206, multipart, 416, If-Range", async () => {
+  const baseDir = stubNext();
+  const bytes = Buffer.from(Array.from({ length: 256 }, (_, i) => i));
+  fs.writeFileSync(path.join(baseDir, "blob.bin"), bytes);
+  const app = await boot({
+    baseDir,
+    assetMap: new Map([["/blob.bin", path.join(baseDir, "blob.bin")]]),
+    tier1: [{ urlPath: "/blob.bin", key: "/blob.bin", kind: "public" }],
+  });
+  const get = (headers) => app.get("/blob.bin", { headers });
+  try {
+    const full = await get({});
+    const etag = full.headers.get("etag");
+    expect(full.headers.get("accept-ranges")).toBe("bytes");
+
+    const one = await get({ range: "bytes=10-19" });
+    expect(one.status).toBe(206);
+    expect(one.headers.get("content-range")).toBe("bytes 10-19/256");
+    expect(Buffer.from(await one.arrayBuffer()).equals(bytes.subarray(10, 20))).toBe(true);
+
+    const many = await get({ range: "bytes=0-1, 254-" });
+    expect(many.status).toBe(206);
+    const type = many.headers.get("content-type");
+    expect(type).toStartWith("multipart/byteranges; boundary=");
+    const body = Buffer.from(await many.arrayBuffer()).toString("latin1");
+    const boundary = type.split("boundary=")[1];
+    expect(body).toContain(`--${boundary}\r\nContent-Type: application/octet-stream\r\nContent-Range: bytes 0-1/256\r\n\r\n\x00\x01\r\n`);
+    expect(body).toContain("Content-Range: bytes 254-255/256\r\n\r\n\xfe\xff\r\n");
+    expect(body).toEndWith(`--${boundary}--\r\n`);
+
+    const unsatisfiable = await get({ range: "bytes=300-400" });
+    expect(unsatisfiable.status).toBe(416);
+    expect(unsatisfiable.headers.get("content-range")).toBe("bytes */256");
+
+    // A stale validator gets the whole, current representation.
+    expect((await get({ range: "bytes=0-0", "if-range": etag })).status).toBe(206);
+    const stale = await get({ range: "bytes=0-0", "if-range": '"old"' });
+    expect(stale.status).toBe(200);
+    expect((await stale.arrayBuffer()).byteLength).toBe(256);
+  } finally {
+    await app.close();
+  }
+});
+
+test("compressible public files range over the identity bytes", async () => {
+  const baseDir = stubNext();
+  const text = "0123456789".repeat(200);
+  fs.writeFileSync(path.join(baseDir, "notes.txt"), text);
+  const app = await boot({
+    baseDir,
+    assetMap: new Map([["/notes.txt", path.join(baseDir, "notes.txt")]]),
+    tier1: [{ urlPath: "/notes.txt", key: "/notes.txt", kind: "public" }],
+  });
+  try {
+    const res = await app.get("/notes.txt", {
+      headers: { range: "bytes=5-9", "accept-encoding": "gzip, br" },
+      decompress: false,
+    });
+    expect(res.status).toBe(206);
+    expect(res.headers.get("content-encoding")).toBeNull();
+    expect(await res.text()).toBe("56789");
+  } finally {
+    await app.close();
+  }
+});
+
+test("preconditions follow RFC 9110: weak lists, *, dates, and header precedence", () => {
+  const { preconditionStatus } = _internal;
+  const etag = '"abc"';
+  const built = "Mon, 05 Oct 2026 12:00:00 GMT";
+  const check = (headers, lastModified = built) =>
+    preconditionStatus(new Request("http://x/", { headers }), etag, lastModified);
+
+  expect(check({})).toBe(0);
+  expect(check({ "if-none-match": '"abc"' })).toBe(304);
+  expect(check({ "if-none-match": 'W/"abc"' })).toBe(304);
+  expect(check({ "if-none-match": '"old", W/"abc"' })).toBe(304);
+  expect(check({ "if-none-match": "*" })).toBe(304);
+  expect(check({ "if-none-match": '"old"' })).toBe(0);
+
+  expect(check({ "if-modified-since": built })).toBe(304);
+  expect(check({ "if-modified-since": "Sun, 04 Oct 2026 12:00:00 GMT" })).toBe(0);
+  expect(check({ "if-modified-since": built }, null)).toBe(0);
+  // A present If-None-Match makes If-Modified-Since moot.
+  expect(check({ "if-none-match": '"old"', "if-modified-since": built })).toBe(0);
+
+  // If-Match is strong and wins over If-Unmodified-Since.
+  expect(check({ "if-match": '"abc"' })).toBe(0);
+  expect(check({ "if-match": 'W/"abc"' })).toBe(412);
+  expect(check({ "if-match": "*" })).toBe(0);
+  expect(
+    check({ "if-match": '"abc"', "if-unmodified-since": "Sun, 04 Oct 2026 12:00:00 GMT" })
+  ).toBe(0);
+  expect(check({ "if-unmodified-since": "Sun, 04 Oct 2026 12:00:00 GMT" })).toBe(412);
+  expect(check({ "if-unmodified-since": built })).toBe(0);
+  expect(check({ "if-match": '"abc"', "if-none-match": '"abc"' })).toBe(304);
+});
+
+test("tiers revalidate weak tags and build-time dates; If-Range accepts the date", async () => {
+  const baseDir = stubNext();
+  const file = (name, content) => {
+    fs.writeFileSync(path.join(baseDir, name), content);
+    return path.join(baseDir, name);
+  };
+  const builtAt = "2026-10-05T12:00:00.000Z";
+  const lastModified = new Date(builtAt).toUTCString();
+  const app = await boot({
+    baseDir,
+    builtAt,
+    assetMap: new Map([
+      ["/blob.bin", file("blob.bin", Buffer.alloc(64, 1))],
+      ["/page.html", file("page.html", "<p>prerendered</p>")],
+    ]),
+    tier1: [{ urlPath: "/blob.bin", key: "/blob.bin", kind: "public" }],
+    staticPages: [{ path: "/page", htmlKey: "/page.html", status: 200 }],
+  });
+  try {
+    for (const p of ["/blob.bin", "/page"]) {
+      const full = await app.get(p);
+      expect(full.headers.get("last-modified")).toBe(lastModified);
+      const etag = full.headers.get("etag");
+      expect((await app.get(p, { headers: { "if-none-match": `"x", W/${etag}` } })).status).toBe(304);
+      expect((await app.get(p, { headers: { "if-modified-since": lastModified } })).status).toBe(304);
+      const changed = await app.get(p, {
+        headers: { "if-none-match": '"x"', "if-modified-since": lastModified },
+      });
+      expect(changed.status).toBe(200);
+      expect((await app.get(p, { headers: { "if-match": '"x"' } })).status).toBe(412);
+    }
+    const ranged = await app.get("/blob.bin", {
+      headers: { range: "bytes=0-3", "if-range": lastModified },
+    });
+    expect(ranged.status).toBe(206);
+    const stale = await app.get("/blob.bin", {
+      headers: { range: "bytes=0-3", "if-range": "Sun, 04 Oct 2026 12:00:00 GMT" },
+    });
+    expect(stale.status).toBe(200);
+  } finally {
+    await app.close();
+  }
+});
+
+test("trusted proxies resolve the forwarded client; untrusted peers lose the headers", () => {
+  const { parseTrustedProxies, resolveClient, makeNodeRequest } = _internal;
+  expect(parseTrustedProxies(undefined)).toBeNull();
+  expect(parseTrustedProxies("0")).toBeNull();
+  expect(parseTrustedProxies("2")).toEqual({ hops: 2 });
+  expect(parseTrustedProxies("10.0.0.0/8, fd00::/8").ranges).toHaveLength(2);
+
+  const resolve = (trust, peer, headers) =>
+    resolveClient(
+      new Request("http://x/", { headers }),
+      { requestIP: () => (peer ? { address: peer } : null) },
+      trust
+    );
+  const lan = parseTrustedProxies("10.0.0.0/8");
+  const xff = { "x-forwarded-for": "6.6.6.6, 203.0.113.7, 10.0.0.2", "x-forwarded-proto": "https" };
+  const viaLb = {
+    address: "203.0.113.7",
+    encrypted: true,
+    forwarding: {
+      "x-forwarded-for": "203.0.113.7, 10.0.0.2",
+      "x-forwarded-proto": "https",
+      "x-real-ip": "203.0.113.7",
+    },
+  };
+  expect(resolve(lan, "10.0.0.1", xff)).toEqual(viaLb);
+  expect(resolve(lan, "::ffff:10.0.0.1", xff)).toEqual(viaLb);
+  expect(resolve(lan, null, xff)).toEqual(viaLb); // unix socket: a local proxy
+  expect(resolve({ hops: 1 }, "10.0.0.1", xff)).toEqual({
+    address: "10.0.0.2",
+    encrypted: true,
+    forwarding: { "x-forwarded-for": "10.0.0.2", "x-forwarded-proto": "https", "x-real-ip": "10.0.0.2" },
+  });
+  const forwarded = 'for="[2001:db8::1]:4711";proto=https;host=app.example, for=10.0.0.9';
+  expect(resolve(lan, "10.0.0.1", { forwarded })).toEqual({
+    address: "2001:db8::1",
+    encrypted: true,
+    forwarding: {
+      "x-forwarded-for": "2001:db8::1, 10.0.0.9",
+      "x-forwarded-proto": "https",
+      "x-forwarded-host": "app.example",
+      "x-real-ip": "2001:db8::1",
+      forwarded,
+    },
+  });
+
+  // What the client sent itself sits left of what the proxy appended.
+  const appended = resolve(lan, "10.0.0.1", {
+    "x-forwarded-for": "203.0.113.7",
+    "x-forwarded-proto": "https, http",
+    "x-forwarded-host": "evil.example, app.example:8443",
+    "x-forwarded-port": "443, 8443",
+    "x-real-ip": "6.6.6.6",
+  });
+  expect(appended).toEqual({
+    address: "203.0.113.7",
+    encrypted: false,
+    forwarding: {
+      "x-forwarded-for": "203.0.113.7",
+      "x-forwarded-proto": "http",
+      "x-forwarded-host": "app.example:8443",
+      "x-forwarded-port": "8443",
+      "x-real-ip": "203.0.113.7",
+    },
+  });
+  // A host that isn't one is dropped, not passed on.
+  const junk = resolve(lan, "10.0.0.1", { ...xff, "x-forwarded-host": "a b/c" });
+  expect(junk.forwarding["x-forwarded-host"]).toBeUndefined();
+  const rebuilt = makeNodeRequest(
+    new Request("http://x/", { headers: { ...xff, "x-real-ip": "6.6.6.6", "x-forwarded-host": "a b/c" } }),
+    junk.address,
+    junk
+  );
+  expect(rebuilt.headers["x-real-ip"]).toBe("203.0.113.7");
+  expect(rebuilt.headers["x-forwarded-host"]).toBeUndefined();
+  expect(rebuilt.headers["x-forwarded-for"]).toBe("203.0.113.7, 10.0.0.2");
+
+  const spoofed = resolve(lan, "198.51.100.1", xff);
+  expect(spoofed).toEqual({ address: "198.51.100.1", encrypted: false, forwarding: null });
+  const req = makeNodeRequest(new Request("http://x/", { headers: { ...xff, "x-real-ip": "6.6.6.6" } }), spoofed.address, spoofed);
+  expect(req.headers["x-forwarded-for"]).toBeUndefined();
+  expect(req.headers["x-real-ip"]).toBeUndefined();
+  expect(req.socket.remoteAddress).toBe("198.51.100.1");
+
+  // Unset: the peer, headers untouched.
+  expect(resolve(null, "10.0.0.1", xff)).toEqual({ address: "10.0.0.1", encrypted: false, forwarding: undefined });
+
+  // A TLS listener terminated the client's connection itself.
+  const tlsListener = { protocol: "https", requestIP: () => ({ address: "198.51.100.1" }) };
+  const direct = (trust) => resolveClient(new Request("http://x/"), tlsListener, trust);
+  expect(direct(null).encrypted).toBe(true);
+  expect(direct(lan).encrypted).toBe(true);
+});
+
+test("Next sees the forwarded client behind a trusted proxy", async () => {
+  process.env.NBC_TRUSTED_PROXIES = "127.0.0.1/32";
+  const app = await boot({
+    baseDir: stubNext({
+      routerServer: `exports.initialize = async () => ({
+        requestHandler: async (req, res) => {
+          res.end(JSON.stringify({
+            ip: req.socket.remoteAddress,
+            encrypted: req.socket.encrypted,
+            xff: req.headers["x-forwarded-for"],
+          }));
+        },
+      });`,
+    }),
+  });
+  try {
+    const res = await app.get("/who", {
+      headers: { "x-forwarded-for": "6.6.6.6, 203.0.113.7", "x-forwarded-proto": "https" },
+    });
+    // The hop the client prepended itself is gone.
+    expect(await res.json()).toEqual({ ip: "203.0.113.7", encrypted: true, xff: "203.0.113.7" });
+  } finally {
+    delete process.env.NBC_TRUSTED_PROXIES;
+    await app.close();
+  }
+});
+
+test("rate limiter: token buckets per client and rule, 429 with Retry-After", () => {
+  const { parseRateLimits, parseTrustedProxies, createRateLimiter } = _internal;
+  const rules = parseRateLimits("/login=2/m, /api/*=10/s, nonsense");
+  expect(rules.map((r) => r.pattern)).toEqual(["/login", "/api/*"]);
+
+  const limiter = createRateLimiter(rules, "x-api-key", { trust: null, maxBuckets: 3 });
+  let peer = "198.51.100.1";
+  const server = { requestIP: () => ({ address: peer }) };
+  const hit = (p, headers) => limiter.check(new Request(`http://x${p}`, { headers }), server);
+  try {
+    expect(hit("/login")).toBeNull();
+    expect(hit("/login")).toBeNull();
+    const limited = hit("/login");
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get("retry-after"))).toBeGreaterThanOrEqual(29);
+
+    // With no proxy to set it, the key header is the client's own: a
+    // fresh value is not a fresh bucket.
+    expect(hit("/login", { "x-api-key": "k1" }).status).toBe(429);
+    // Unmatched and runtime paths are free.
+    expect(hit("/about")).toBeNull();
+    expect(hit("/_nbc/live")).toBeNull();
+    for (let i = 0; i < 10; i++) expect(hit("/api/items")).toBeNull();
+    expect(hit("/api/items").status).toBe(429);
+
+    // Past maxBuckets the least recently seen client's bucket goes.
+    for (const other of ["198.51.100.2", "198.51.100.3", "198.51.100.4"]) {
+      peer = other;
+      expect(hit("/login")).toBeNull();
+    }
+    expect([...rules[0].buckets.keys()]).toEqual([
+      "ip:198.51.100.2",
+      "ip:198.51.100.3",
+      "ip:198.51.100.4",
+    ]);
+  } finally {
+    limiter.close();
+  }
+
+  // Behind a trusted proxy, the header the proxy set keys the bucket.
+  const proxied = createRateLimiter(parseRateLimits("/login=1/m"), "x-api-key", {
+    trust: parseTrustedProxies("10.0.0.0/8"),
+  });
+  const lb = { requestIP: () => ({ address: "10.0.0.1" }) };
+  const viaLb = (key) =>
+    proxied.check(
+      new Request("http://x/login", {
+        headers: { "x-forwarded-for": "203.0.113.7", "x-api-key": key },
+      }),
+      lb
+    );
+  try {
+    expect(viaLb("k1")).toBeNull();
+    expect(viaLb("k1").status).toBe(429);
+    expect(viaLb("k2")).toBeNull();
+  } finally {
+    proxied.close();
+  }
+});
+
+test("rate limits apply ahead of the memory tiers", async () => {
+  process.env.NBC_RATE_LIMIT = "/logo.png=1/h";
+  const baseDir = stubNext();
+  fs.writeFileSync(path.join(baseDir, "logo.png"), "png");
+  const app = await boot({
+    baseDir,
+    assetMap: new Map([["/logo.png", path.join(baseDir, "logo.png")]]),
+    tier1: [{ urlPath: "/logo.png", key: "/logo.png", kind: "public" }],
+  });
+  try {
+    expect((await app.get("/logo.png")).status).toBe(200);
+    const limited = await app.get("/logo.png");
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get("retry-after")).toBe("3600");
+    expect((await app.get("/other")).status).toBe(200);
+  } finally {
+    delete process.env.NBC_RATE_LIMIT;
+    await app.close();
+  }
+});
+
+test("request hooks run around every tier and can answer early", async () => {
+  const baseDir = stubNext();
+  const file = (name, content) => {
+    fs.writeFileSync(path.join(baseDir, name), content);
+    return path.join(baseDir, name);
+  };
+  const seen = [];
+  const app = await boot({
+    baseDir,
+    assetMap: new Map([
+      ["/_next/static/app.js", file("app.js", "x")],
+      ["/page.html", file("page.html", "<p>prerendered</p>")],
+    ]),
+    tier1: [{ urlPath: "/_next/static/app.js", key: "/_next/static/app.js", kind: "static" }],
+    staticPages: [{ path: "/page", htmlKey: "/page.html", status: 200 }],
+    hooks: {
+      onRequest(req) {
+        if (req.headers.get("x-country") === "XX") {
+          return new Response("blocked", { status: 451 });
+        }
+      },
+      async onResponse(req, res, tier) {
+        seen.push(tier);
+        res.headers.set("x-served-by", tier);
+      },
+    },
+  });
+  try {
+    for (const [p, tier] of [
+      ["/_next/static/app.js", "static"],
+      ["/page", "page"],
+      ["/dynamic", "next"],
+    ]) {
+      const res = await app.get(p);
+      expect(res.status).toBe(200);
+      expect(res.headers.get("x-served-by")).toBe(tier);
+    }
+    const blocked = await app.get("/page", { headers: { "x-country": "XX" } });
+    expect(blocked.status).toBe(451);
+    expect(seen).toEqual(["static", "page", "next"]);
+    // Runtime endpoints are not the app's.
+    expect((await app.get("/_nbc/live")).headers.get("x-served-by")).toBeNull();
+  } finally {
+    await app.close();
+  }
+});
+
+test("WebSocket module upgrades matching paths on the same server; Next code can publish", async () => {
+  const { publish, subscriberCount } = require("../websocket.ts");
+  const app = await boot({
+    webSocket: {
+      path: "/ws",
+      upgrade(req) {
+        const user = new URL(req.url).searchParams.get("user");
+        return user ? { user } : false;
+      },
+      websocket: {
+        open(ws) {
+          ws.subscribe("news");
+        },
+        message(ws, msg) {
+          ws.send(`${ws.data.user}:${msg}`);
+        },
+      },
+    },
+  });
+  const wsUrl = (q) => app.url(`/ws${q}`).replace("http:", "ws:");
+  try {
+    const socket = new WebSocket(wsUrl("?user=ada"));
+    const messages = [];
+    const next = () =>
+      new Promise((resolve) => socket.addEventListener("message", (e) => resolve(e.data), { once: true }));
+    await new Promise((resolve, reject) => {
+      socket.addEventListener("open", resolve, { once: true });
+      socket.addEventListener("error", reject, { once: true });
+    });
+    socket.send("hi");
+    messages.push(await next());
+    expect(subscriberCount("news")).toBe(1);
+    const published = next();
+    expect(publish("news", "breaking")).toBeGreaterThan(0);
+    messages.push(await published);
+    expect(messages).toEqual(["ada:hi", "breaking"]);
+    socket.close();
+
+    // The gate refuses; plain requests on the path still reach Next.
+    const refused = await app.get("/ws", { headers: { upgrade: "websocket", connection: "upgrade" } });
+    expect(refused.status).toBe(403);
+    expect(await (await app.get("/ws")).text()).toBe("next:/ws");
+  } finally {
+    delete globalThis[Symbol.for("next-bun-compile.server")];
+    await app.close();
+  }
+});
+
+test("onRequest sees WebSocket upgrades and can refuse them", async () => {
+  const seen = [];
+  const app = await boot({
+    hooks: {
+      onRequest(req) {
+        seen.push(new URL(req.url).search);
+        if (!req.headers.get("authorization")) return new Response("no", { status: 401 });
+      },
+    },
+    webSocket: { path: "/ws", websocket: { message() {} } },
+  });
+  try {
+    const refused = await app.get("/ws?a", { headers: { upgrade: "websocket", connection: "upgrade" } });
+    expect(refused.status).toBe(401);
+
+    const socket = new WebSocket(app.url("/ws?b").replace("http:", "ws:"), {
+      headers: { authorization: "Bearer t" },
+    });
+    await new Promise((resolve, reject) => {
+      socket.addEventListener("open", resolve, { once: true });
+      socket.addEventListener("error", reject, { once: true });
+    });
+    socket.close();
+    expect(seen).toEqual(["?a", "?b"]);
+  } finally {
+    delete globalThis[Symbol.for("next-bun-compile.server")];
+    await app.close();
+  }
+});
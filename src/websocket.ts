@@ -0,0 +1,67 @@
+/**
+ * WebSockets on the binary's own Bun.serve. An app opts in with an
+ * `nbc.websocket.ts` (or .mts/.js/.mjs) in its project root; the build
+ * bundles it and the runtime upgrades matching requests onto its
+ * handlers:
+ *
+ *   // nbc.websocket.ts
+ *   import type { WebSocketModule } from "next-bun-compile/websocket";
+ *   export const path = "/ws";
+ *   export const websocket: WebSocketModule["websocket"] = {
+ *     open(ws) { ws.subscribe("chat"); },
+ *     message(ws, msg) { ws.publish("chat", msg); },
+ *   };
+ *
+ * Code running inside Next (route handlers, server actions) reaches the
+ * same server through publish() below. Subscribers are per process —
+ * with NBC_WORKERS, per worker.
+ */
+import type { ServerWebSocket, WebSocketHandler } from "bun";
+
+export interface WebSocketModule<Data = unknown> {
+  /** Which requests upgrade: an exact pathname, a pattern, or a test. */
+  path: string | RegExp | ((pathname: string, req: Request) => boolean);
+  /** Optional gate before the upgrade. Return the socket's `ws.data`,
+   *  `false` to refuse with 403, or a Response to answer instead. */
+  upgrade?(
+    req: Request
+  ): Data | false | Response | Promise<Data | false | Response>;
+  /** Bun's WebSocket handlers (open, message, close, drain, …). */
+  websocket: WebSocketHandler<Data>;
+}
+
+export type { ServerWebSocket };
+
+/** What the runtime registers on globalThis once the server is bound. */
+interface RunningServer {
+  publish(
+    topic: string,
+    data: string | ArrayBufferView | ArrayBuffer,
+    compress?: boolean
+  ): number;
+  subscriberCount(topic: string): number;
+}
+
+const SERVER_KEY = Symbol.for("next-bun-compile.server");
+
+function running(): RunningServer | undefined {
+  return (globalThis as { [SERVER_KEY]?: RunningServer })[SERVER_KEY];
+}
+
+/**
+ * Send to every socket subscribed to `topic` on this process. Returns
+ * Bun's publish result (bytes sent, 0 when dropped or nobody is
+ * subscribed), or 0 outside a next-bun-compile binary with WebSockets.
+ */
+export function publish(
+  topic: string,
+  data: string | ArrayBufferView | ArrayBuffer,
+  compress?: boolean
+): number {
+  return running()?.publish(topic, data, compress) ?? 0;
+}
+
+/** Sockets subscribed to `topic` on this process (0 without a server). */
+export function subscriberCount(topic: string): number {
+  return running()?.subscriberCount(topic) ?? 0;
+}